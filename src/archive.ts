@@ -0,0 +1,197 @@
+import { Database } from 'bun:sqlite';
+
+export type ArchiveKind = 'nostr' | 'rss';
+
+export interface ArchiveEntry {
+  id: string;
+  kind: ArchiveKind;
+  author: string;
+  title: string;
+  content: string;
+  link: string;
+  createdAt: number;
+  raw: unknown;
+}
+
+export interface ArchiveQuery {
+  kind?: ArchiveKind;
+  sources?: string[];
+  since?: number;
+  until?: number;
+  /** Substring of the author, matched against RSS and Nostr items */
+  author?: string;
+  /** Hex pubkey of a Nostr author; items match it or `author` */
+  pubkey?: string;
+  text?: string;
+  limit: number;
+}
+
+export interface ArchiveRecord {
+  kind: ArchiveKind;
+  raw: unknown;
+  sources: string[];
+}
+
+export interface Archive {
+  store(sources: string[], entries: ArchiveEntry[]): void;
+  query(query: ArchiveQuery): ArchiveRecord[];
+  close(): void;
+}
+
+interface ItemRow {
+  kind: ArchiveKind;
+  raw: string;
+  sources: string;
+}
+
+/**
+ * Open (and create if needed) the SQLite archive at the given path
+ */
+export function openArchive(path: string): Archive {
+  const db = new Database(path, { create: true });
+  db.exec('PRAGMA journal_mode = WAL;');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS items (
+      id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      author TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      link TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      raw TEXT NOT NULL,
+      PRIMARY KEY (kind, id)
+    );
+    CREATE TABLE IF NOT EXISTS item_sources (
+      kind TEXT NOT NULL,
+      id TEXT NOT NULL,
+      source TEXT NOT NULL,
+      PRIMARY KEY (kind, id, source)
+    );
+    CREATE INDEX IF NOT EXISTS items_created_at ON items (created_at);
+    CREATE INDEX IF NOT EXISTS item_sources_source ON item_sources (source);
+  `);
+
+  const upsertItem = db.prepare(`
+    INSERT INTO items (id, kind, author, title, content, link, created_at, fetched_at, raw)
+    VALUES ($id, $kind, $author, $title, $content, $link, $createdAt, $fetchedAt, $raw)
+    ON CONFLICT (kind, id) DO UPDATE SET
+      author = excluded.author,
+      title = excluded.title,
+      content = excluded.content,
+      link = excluded.link,
+      fetched_at = excluded.fetched_at,
+      raw = excluded.raw
+  `);
+  const insertSource = db.prepare(`
+    INSERT OR IGNORE INTO item_sources (kind, id, source)
+    VALUES ($kind, $id, $source)
+  `);
+
+  const storeAll = db.transaction(
+    (sources: string[], entries: ArchiveEntry[]) => {
+      const fetchedAt = Math.floor(Date.now() / 1000);
+      for (const entry of entries) {
+        upsertItem.run({
+          $id: entry.id,
+          $kind: entry.kind,
+          $author: entry.author,
+          $title: entry.title,
+          $content: entry.content,
+          $link: entry.link,
+          $createdAt: entry.createdAt,
+          $fetchedAt: fetchedAt,
+          $raw: JSON.stringify(entry.raw),
+        });
+        for (const source of sources) {
+          insertSource.run({
+            $kind: entry.kind,
+            $id: entry.id,
+            $source: source,
+          });
+        }
+      }
+    }
+  );
+
+  return {
+    store(sources, entries) {
+      if (entries.length > 0) storeAll(sources, entries);
+    },
+
+    query({ kind, sources, since, until, author, pubkey, text, limit }) {
+      const conditions: string[] = [];
+      const params: Record<string, string | number> = { $limit: limit };
+
+      if (kind) {
+        conditions.push('i.kind = $kind');
+        params.$kind = kind;
+      }
+      if (sources && sources.length > 0) {
+        const placeholders = sources.map((source, index) => {
+          params[`$source${index}`] = source;
+          return `$source${index}`;
+        });
+        conditions.push(
+          `EXISTS (SELECT 1 FROM item_sources f WHERE f.kind = i.kind AND f.id = i.id AND f.source IN (${placeholders.join(', ')}))`
+        );
+      }
+      if (since !== undefined) {
+        conditions.push('i.created_at >= $since');
+        params.$since = since;
+      }
+      if (until !== undefined) {
+        conditions.push('i.created_at <= $until');
+        params.$until = until;
+      }
+      if (author || pubkey) {
+        const matches: string[] = [];
+        if (pubkey) {
+          matches.push("(i.kind = 'nostr' AND i.author = $pubkey)");
+          params.$pubkey = pubkey;
+        }
+        if (author) {
+          matches.push("i.author LIKE $author ESCAPE '\\'");
+          params.$author = `%${escapeLike(author)}%`;
+        }
+        conditions.push(`(${matches.join(' OR ')})`);
+      }
+      if (text) {
+        conditions.push(
+          "(i.title LIKE $text ESCAPE '\\' OR i.content LIKE $text ESCAPE '\\')"
+        );
+        params.$text = `%${escapeLike(text)}%`;
+      }
+
+      const rows = db
+        .query<ItemRow, Record<string, string | number>>(
+          `SELECT i.kind, i.raw,
+             (SELECT group_concat(s.source, ' ') FROM item_sources s
+               WHERE s.kind = i.kind AND s.id = i.id) AS sources
+           FROM items i
+           ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+           ORDER BY i.created_at DESC
+           LIMIT $limit`
+        )
+        .all(params);
+
+      return rows.map((row) => ({
+        kind: row.kind,
+        raw: JSON.parse(row.raw),
+        sources: row.sources ? row.sources.split(' ') : [],
+      }));
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,283 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  assertPublicUrl,
+  extractArticle,
+  fetchArticle,
+  isCommentsUrl,
+  type HostLookup,
+} from './article';
+import type { Fetcher } from './identifiers';
+
+const fixture = (name: string) =>
+  fs.readFileSync(
+    path.join(import.meta.dir, 'fixtures/articles', name),
+    'utf8'
+  );
+
+/**
+ * Resolve hosts from a fixed table instead of DNS
+ */
+const hosts =
+  (table: Record<string, string[]>): HostLookup =>
+  async (hostname) =>
+    table[hostname] ?? [];
+
+const publicHosts = hosts({
+  'blog.example.com': ['93.184.216.34'],
+  'www.example.com': ['93.184.216.34', '2606:2800:220:1::1'],
+  'intranet.example.com': ['10.0.0.8'],
+  'mixed.example.com': ['93.184.216.34', '192.168.1.1'],
+});
+
+describe('extractArticle', () => {
+  test('reads a blog post without its navigation and footer', () => {
+    const article = extractArticle(
+      fixture('blog-post.html'),
+      'https://blog.example.com/posts/relay'
+    );
+
+    expect(article).toMatchObject({
+      type: 'article',
+      title: 'Running a relay on a small VPS',
+      byline: 'Alice Example',
+      publishedAt: '2024-05-10T08:00:00Z',
+      truncated: false,
+    });
+    expect(article.text).toStartWith('Running a relay on a small VPS\n\n');
+    expect(article.text).toEndWith('Thanks & happy relaying.');
+    for (const boilerplate of ['Archive', 'Draft', 'newsletter', 'Copyright']) {
+      expect(article.text).not.toContain(boilerplate);
+    }
+  });
+
+  test('keeps headings, lists, links, code and quotes in markdown', () => {
+    const { markdown } = extractArticle(
+      fixture('blog-post.html'),
+      'https://blog.example.com/posts/relay'
+    );
+
+    expect(markdown).toContain(
+      '## What you need\n\n- A VPS with 1 GB of memory\n- A domain name\n- About an hour'
+    );
+    expect(markdown).toContain(
+      '[install guide](https://blog.example.com/guides/install)'
+    );
+    expect(markdown).toContain('**write restrictions** so only *paying*');
+    expect(markdown).toContain(
+      '```\ndocker run -p 7777:7777 \\\n  example/relay:latest\n```'
+    );
+    expect(markdown).toContain('> Keep backups of the database');
+  });
+
+  test('prefers meta tags and skips link-only and short blocks', () => {
+    const article = extractArticle(
+      fixture('news-story.html'),
+      'https://news.example.com/zaps'
+    );
+
+    expect(article).toMatchObject({
+      title: 'Zaps pass 10 million — a milestone',
+      byline: 'Bob Reporter',
+      publishedAt: '2024-05-14T12:00:00Z',
+    });
+    expect(article.text.split('\n\n')).toHaveLength(3);
+    expect(article.text).toContain('the median is 21 sats');
+    for (const skipped of ['Share on social', 'Read more', 'analytics']) {
+      expect(article.text).not.toContain(skipped);
+    }
+  });
+
+  test('falls back to plain text for pages without paragraphs', () => {
+    const article = extractArticle(
+      fixture('plain-page.html'),
+      'https://www.example.com/releases/2.1'
+    );
+
+    expect(article.title).toBe('Release notes – v2.1');
+    const paragraphs = article.text
+      .split('\n\n')
+      .map((paragraph) => paragraph.replace(/\s+/g, ' '));
+    expect(paragraphs).toEqual([
+      'Version 2.1',
+      'Faster relay connections when the network changes. Fixed a crash when a relay sends an empty notice.',
+      'Search now falls back to local filtering on relays without NIP-50 support, so results stay complete.',
+      'Upgrade Recommended for everyone running version 2.0 or earlier.',
+    ]);
+    expect(article.markdown).toBe(article.text);
+  });
+
+  test('cuts long text at the length limit', () => {
+    const article = extractArticle(
+      fixture('blog-post.html'),
+      'https://blog.example.com/posts/relay',
+      100
+    );
+    expect(article.truncated).toBe(true);
+    expect(article.text).toHaveLength(101);
+    expect(article.text).toEndWith('…');
+  });
+
+  test('marks discussion pages as comments', () => {
+    expect(
+      extractArticle(
+        fixture('news-story.html'),
+        'https://news.ycombinator.com/item?id=1'
+      ).type
+    ).toBe('comments');
+    expect(isCommentsUrl('https://stacker.news/items/123')).toBe(true);
+    expect(
+      isCommentsUrl('https://old.reddit.com/r/nostr/comments/abc/title/')
+    ).toBe(true);
+    expect(isCommentsUrl('https://lobste.rs/s/abc123/title')).toBe(true);
+    expect(isCommentsUrl('https://news.ycombinator.com/news')).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  test('accepts http(s) URLs on public hosts', async () => {
+    await assertPublicUrl('https://www.example.com/post', publicHosts);
+    await assertPublicUrl('http://93.184.216.34:8080/', publicHosts);
+  });
+
+  test('rejects other schemes', async () => {
+    for (const url of [
+      'file:///etc/passwd',
+      'ftp://www.example.com/',
+      'data:text/html,hi',
+    ]) {
+      await expect(assertPublicUrl(url, publicHosts)).rejects.toThrow(
+        'Only http and https URLs can be fetched'
+      );
+    }
+    await expect(assertPublicUrl('not a url', publicHosts)).rejects.toThrow(
+      'is not a valid URL'
+    );
+  });
+
+  test('rejects loopback, private and link-local addresses', async () => {
+    for (const url of [
+      'http://127.0.0.1/',
+      'http://2130706433/',
+      'http://0x7f.1/',
+      'http://0.0.0.0:3000/',
+      'http://10.1.2.3/',
+      'http://172.20.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://100.64.0.1/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/',
+    ]) {
+      await expect(assertPublicUrl(url, publicHosts)).rejects.toThrow(
+        'resolves to a private or local address'
+      );
+    }
+  });
+
+  test('rejects names that resolve to any non-public address', async () => {
+    for (const url of [
+      'https://intranet.example.com/',
+      'https://mixed.example.com/',
+      'https://unknown.example.com/',
+    ]) {
+      await expect(assertPublicUrl(url, publicHosts)).rejects.toThrow(
+        'resolves to a private or local address'
+      );
+    }
+  });
+});
+
+describe('fetchArticle', () => {
+  test('fetches and extracts a public page', async () => {
+    const inits: (RequestInit | undefined)[] = [];
+    const fetcher: Fetcher = async (_url, init) => {
+      inits.push(init);
+      return new Response(fixture('blog-post.html'), {
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+      });
+    };
+
+    const article = await fetchArticle('https://blog.example.com/posts/relay', {
+      fetcher,
+      lookup: publicHosts,
+    });
+    expect(article.title).toBe('Running a relay on a small VPS');
+    expect(inits[0]?.redirect).toBe('manual');
+    expect(inits[0]?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test('checks every redirect before following it', async () => {
+    const urls: string[] = [];
+    const fetcher: Fetcher = async (url) => {
+      urls.push(url);
+      return url.endsWith('/old')
+        ? new Response(null, {
+            status: 301,
+            headers: { location: '/posts/relay' },
+          })
+        : url.endsWith('/relay')
+          ? new Response(null, {
+              status: 302,
+              headers: { location: 'http://127.0.0.1:8080/admin' },
+            })
+          : new Response('secret');
+    };
+
+    await expect(
+      fetchArticle('https://blog.example.com/old', {
+        fetcher,
+        lookup: publicHosts,
+      })
+    ).rejects.toThrow('Refusing to fetch 127.0.0.1:8080');
+    expect(urls).toEqual([
+      'https://blog.example.com/old',
+      'https://blog.example.com/posts/relay',
+    ]);
+  });
+
+  test('never requests a blocked URL', async () => {
+    let requests = 0;
+    const fetcher: Fetcher = async () => {
+      requests++;
+      return new Response('');
+    };
+
+    await expect(
+      fetchArticle('http://localhost:3000/', {
+        fetcher,
+        lookup: hosts({ localhost: ['127.0.0.1', '::1'] }),
+      })
+    ).rejects.toThrow('private or local address');
+    expect(requests).toBe(0);
+  });
+
+  test('marks pages cut at the byte limit as truncated', async () => {
+    const fetcher: Fetcher = async () =>
+      new Response(fixture('blog-post.html'), {
+        headers: { 'content-type': 'text/html' },
+      });
+
+    const article = await fetchArticle('https://blog.example.com/posts/relay', {
+      fetcher,
+      lookup: publicHosts,
+      limits: { maxBytes: 1500, timeout: 1000, maxLength: 20000 },
+    });
+    expect(article.truncated).toBe(true);
+  });
+
+  test('rejects content that is not a page', async () => {
+    const fetcher: Fetcher = async () =>
+      new Response('%PDF', { headers: { 'content-type': 'application/pdf' } });
+
+    await expect(
+      fetchArticle('https://blog.example.com/paper.pdf', {
+        fetcher,
+        lookup: publicHosts,
+      })
+    ).rejects.toThrow("Unsupported content type 'application/pdf'");
+  });
+});
@@ -0,0 +1,532 @@
+import { createHash } from 'crypto';
+import { lookup } from 'dns/promises';
+import * as fs from 'fs';
+import { BlockList, isIP } from 'net';
+import * as path from 'path';
+import { decodeEntities } from './feeds';
+import type { Fetcher } from './identifiers';
+
+export interface Article {
+  url: string;
+  /** 'comments' for discussion pages such as HN or Stacker News items */
+  type: 'article' | 'comments';
+  title?: string;
+  byline?: string;
+  publishedAt?: string;
+  text: string;
+  markdown: string;
+  /** True when the page or the extracted text was cut at a size limit */
+  truncated: boolean;
+}
+
+export interface ArticleLimits {
+  maxBytes: number;
+  timeout: number;
+  maxLength: number;
+}
+
+export interface ArticleCache {
+  get(url: string): Article | undefined;
+  set(article: Article): void;
+}
+
+/**
+ * Resolve a hostname to its IP addresses
+ */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export const DEFAULT_ARTICLE_LIMITS: ArticleLimits = {
+  maxBytes: 2 * 1024 * 1024,
+  timeout: 15000,
+  maxLength: 20000,
+};
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, carrier-grade NAT, documentation, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses are checked as IPv4.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Discussion pages: HN items, Stacker News items and Reddit/Lobsters threads
+const COMMENT_URL_PATTERNS = [
+  /^https?:\/\/news\.ycombinator\.com\/item\?id=\d+/,
+  /^https?:\/\/stacker\.news\/items\/\d+/,
+  /^https?:\/\/(?:www\.|old\.)?reddit\.com\/r\/[^/]+\/comments\//,
+  /^https?:\/\/lobste\.rs\/s\//,
+];
+
+// Elements that never hold article text
+const BOILERPLATE_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'form',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'button',
+  'select',
+];
+
+const BLOCK_PATTERN =
+  /<(h[1-6]|p|li|blockquote|pre|dt|dd|figcaption)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi;
+
+/**
+ * Check whether a link points at a discussion page rather than an article
+ */
+export function isCommentsUrl(url: string): boolean {
+  return COMMENT_URL_PATTERNS.some((pattern) => pattern.test(url));
+}
+
+/**
+ * Read a `<meta>` tag's content by name or property
+ */
+function getMeta(html: string, ...names: string[]): string | undefined {
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const key = tag.match(/\b(?:name|property|itemprop)\s*=\s*["']([^"']+)/i);
+    const content = tag.match(/\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    if (key?.[1] && names.includes(key[1].toLowerCase()) && content) {
+      const value = decodeEntities(content[1] ?? content[2] ?? '').trim();
+      if (value) return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check for a JSON object, as opposed to an array or primitive
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Keep a JSON value only if it is a string
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read headline, author and date from JSON-LD Article metadata
+ */
+function getJsonLd(html: string): {
+  headline?: string;
+  author?: string;
+  datePublished?: string;
+} {
+  for (const match of html.matchAll(
+    /<script\b[^>]*application\/ld\+json[^>]*>([\s\S]*?)<\/script>/gi
+  )) {
+    try {
+      const data: unknown = JSON.parse(match[1] ?? '');
+      const nodes = (Array.isArray(data) ? data : [data]).flatMap(
+        (node: unknown): unknown[] =>
+          isJsonObject(node) && Array.isArray(node['@graph'])
+            ? node['@graph']
+            : [node]
+      );
+      const article = nodes
+        .filter(isJsonObject)
+        .find(
+          (node) =>
+            typeof node.headline === 'string' ||
+            typeof node.datePublished === 'string'
+        );
+      if (!article) continue;
+
+      const author: unknown = Array.isArray(article.author)
+        ? article.author[0]
+        : article.author;
+      const authorName = isJsonObject(author) ? author.name : author;
+      return {
+        headline: asString(article.headline),
+        author: asString(authorName),
+        datePublished: asString(article.datePublished),
+      };
+    } catch {
+      // Ignore malformed JSON-LD blocks
+    }
+  }
+  return {};
+}
+
+/**
+ * Convert inline HTML to text, or to markdown with links and emphasis
+ */
+function inlineToText(html: string, baseUrl: string, markdown: boolean) {
+  let text = html.replace(/<br\s*\/?>/gi, '\n');
+
+  if (markdown) {
+    text = text
+      .replace(
+        /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi,
+        (_, href: string, label: string) => {
+          const linkText = label.replace(/<[^>]*>/g, '').trim();
+          if (!linkText) return '';
+          try {
+            return `[${linkText}](${new URL(decodeEntities(href), baseUrl).href})`;
+          } catch {
+            return linkText;
+          }
+        }
+      )
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`');
+  }
+
+  return decodeEntities(text.replace(/<[^>]*>/g, ''))
+    .replace(/[ \t\r\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+/**
+ * Share of a block's text that sits inside links; navigation-like blocks
+ * are mostly links
+ */
+function linkDensity(html: string): number {
+  const total = html.replace(/<[^>]*>/g, '').trim().length;
+  if (total === 0) return 1;
+  const linked = [...html.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)]
+    .map((match) => (match[1] ?? '').replace(/<[^>]*>/g, '').trim().length)
+    .reduce((sum, length) => sum + length, 0);
+  return linked / total;
+}
+
+/**
+ * Pick the part of the page most likely to hold the main content
+ */
+function selectContentRegion(html: string): string {
+  for (const pattern of [
+    /<article\b[^>]*>([\s\S]*)<\/article>/i,
+    /<main\b[^>]*>([\s\S]*)<\/main>/i,
+    /<body\b[^>]*>([\s\S]*)<\/body>/i,
+  ]) {
+    const region = html.match(pattern)?.[1];
+    if (region && region.replace(/<[^>]*>/g, '').trim().length > 200) {
+      return region;
+    }
+  }
+  return html;
+}
+
+/**
+ * Extract readable content from an HTML page. Pure, so it can be checked
+ * against saved pages.
+ */
+export function extractArticle(
+  html: string,
+  url: string,
+  maxLength: number = DEFAULT_ARTICLE_LIMITS.maxLength
+): Article {
+  const jsonLd = getJsonLd(html);
+  const pageTitle = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const title =
+    getMeta(html, 'og:title', 'twitter:title') ??
+    jsonLd.headline ??
+    (pageTitle ? decodeEntities(pageTitle).trim() : undefined);
+  const byline =
+    getMeta(html, 'author', 'article:author', 'parsely-author') ??
+    jsonLd.author;
+  const publishedAt =
+    getMeta(
+      html,
+      'article:published_time',
+      'datepublished',
+      'date',
+      'parsely-pub-date'
+    ) ??
+    jsonLd.datePublished ??
+    html.match(/<time\b[^>]*\bdatetime\s*=\s*["']([^"']+)["']/i)?.[1];
+
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of BOILERPLATE_TAGS) {
+    cleaned = cleaned.replace(
+      new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'),
+      ''
+    );
+  }
+  const region = selectContentRegion(cleaned);
+
+  const text: string[] = [];
+  const markdown: string[] = [];
+  let previousTag = '';
+  for (const match of region.matchAll(BLOCK_PATTERN)) {
+    const tag = (match[1] ?? '').toLowerCase();
+    const inner = match[2] ?? '';
+    // Preformatted text keeps its whitespace
+    const plain =
+      tag === 'pre'
+        ? decodeEntities(inner.replace(/<[^>]*>/g, '')).trim()
+        : inlineToText(inner, url, false);
+    if (!plain) continue;
+
+    const heading = tag.startsWith('h');
+    // Skip navigation-like and trivially short blocks
+    if (!heading && tag !== 'pre' && linkDensity(inner) > 0.5) continue;
+    if (
+      !heading &&
+      tag !== 'li' &&
+      tag !== 'pre' &&
+      plain.split(/\s+/).length < 3
+    ) {
+      continue;
+    }
+
+    const md = tag === 'pre' ? plain : inlineToText(inner, url, true);
+    if (tag === 'li' && previousTag === 'li') {
+      // Keep list items together rather than one paragraph each
+      text[text.length - 1] += `\n${plain}`;
+      markdown[markdown.length - 1] += `\n- ${md}`;
+      continue;
+    }
+    previousTag = tag;
+
+    text.push(plain);
+    if (heading) markdown.push(`${'#'.repeat(Number(tag[1]))} ${md}`);
+    else if (tag === 'li') markdown.push(`- ${md}`);
+    else if (tag === 'blockquote') markdown.push(`> ${md}`);
+    else if (tag === 'pre') markdown.push(`\`\`\`\n${md}\n\`\`\``);
+    else markdown.push(md);
+  }
+
+  // Pages without paragraph markup: fall back to the region's plain text
+  if (text.join(' ').length < 200) {
+    const fallback = inlineToText(
+      region
+        .replace(/<\/(div|section|tr|table)\s*>/gi, '\n')
+        .replace(/<\/(td|th)\s*>/gi, ' '),
+      url,
+      false
+    ).replace(/\n{3,}/g, '\n\n');
+    text.splice(0, text.length, fallback);
+    markdown.splice(0, markdown.length, fallback);
+  }
+
+  const fullText = text.join('\n\n');
+  const fullMarkdown = markdown.join('\n\n');
+  const truncated = fullText.length > maxLength;
+
+  return {
+    url,
+    type: isCommentsUrl(url) ? 'comments' : 'article',
+    title,
+    byline,
+    publishedAt,
+    text: truncated ? `${fullText.slice(0, maxLength)}…` : fullText,
+    markdown:
+      fullMarkdown.length > maxLength
+        ? `${fullMarkdown.slice(0, maxLength)}…`
+        : fullMarkdown,
+    truncated,
+  };
+}
+
+/**
+ * Read a response body, stopping at `maxBytes`
+ */
+async function readLimited(
+  response: Response,
+  maxBytes: number
+): Promise<{ body: string; truncated: boolean }> {
+  if (!response.body) return { body: '', truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size >= maxBytes) {
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+  }
+
+  return {
+    body: new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes)),
+    truncated,
+  };
+}
+
+/**
+ * Check whether an IP address is routable on the public internet
+ */
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const lookupHost: HostLookup = async (hostname) =>
+  (await lookup(hostname, { all: true })).map((entry) => entry.address);
+
+/**
+ * Check that a URL is http(s) and that its host only resolves to public
+ * addresses, so a shared server can't be used to reach its own network
+ */
+export async function assertPublicUrl(
+  url: string,
+  lookupAddresses: HostLookup = lookupHost
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`'${url}' is not a valid URL`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(
+      `Only http and https URLs can be fetched, not '${parsed.protocol}'`
+    );
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookupAddresses(hostname);
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(
+      `Refusing to fetch ${parsed.host}: it resolves to a private or local address`
+    );
+  }
+}
+
+/**
+ * Fetch a public URL, following redirects by hand so every hop is checked
+ * with `assertPublicUrl`. Returns the response and the URL it came from.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit,
+  fetcher: Fetcher = fetch,
+  lookupAddresses: HostLookup = lookupHost
+): Promise<{ response: Response; url: string }> {
+  let target = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target, lookupAddresses);
+    const response = await fetcher(target, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: target };
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Stopped after ${MAX_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target).href;
+  }
+}
+
+/**
+ * Fetch a page and extract its article, using the cache when possible
+ */
+export async function fetchArticle(
+  url: string,
+  {
+    limits = DEFAULT_ARTICLE_LIMITS,
+    cache,
+    fetcher = fetch,
+    lookup: lookupAddresses = lookupHost,
+  }: {
+    limits?: ArticleLimits;
+    cache?: ArticleCache;
+    fetcher?: Fetcher;
+    lookup?: HostLookup;
+  } = {}
+): Promise<Article> {
+  const cached = cache?.get(url);
+  if (cached) return cached;
+
+  const { response, url: target } = await fetchPublicUrl(
+    url,
+    {
+      headers: { Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5' },
+      signal: AbortSignal.timeout(limits.timeout),
+    },
+    fetcher,
+    lookupAddresses
+  );
+
+  if (!response.ok) {
+    throw new Error(`Status code ${response.status}`);
+  }
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+    throw new Error(`Unsupported content type '${contentType}'`);
+  }
+
+  const { body, truncated } = await readLimited(response, limits.maxBytes);
+  const article = extractArticle(body, target, limits.maxLength);
+  article.url = url;
+  article.truncated ||= truncated;
+
+  cache?.set(article);
+  return article;
+}
+
+/**
+ * Create an on-disk article cache with one JSON file per URL
+ */
+export function createArticleCache(dir: string, ttl: number): ArticleCache {
+  const fileFor = (url: string) =>
+    path.join(dir, `${createHash('sha256').update(url).digest('hex')}.json`);
+
+  return {
+    get(url) {
+      try {
+        const file = fileFor(url);
+        if (Date.now() - fs.statSync(file).mtimeMs > ttl) return undefined;
+        return JSON.parse(fs.readFileSync(file, 'utf8')) as Article;
+      } catch {
+        return undefined;
+      }
+    },
+
+    set(article) {
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(fileFor(article.url), JSON.stringify(article), 'utf8');
+      } catch (error) {
+        console.error(`Error caching article ${article.url}:`, error);
+      }
+    },
+  };
+}
@@ -0,0 +1,178 @@
+import type Parser from 'rss-parser';
+import type { FeedResponse, FeedValidators } from './feeds';
+
+/**
+ * Feed items from the cache. `stale` is set when a refresh failed and the
+ * last good copy was returned instead.
+ */
+export interface CachedFeed {
+  items: Parser.Item[];
+  fetchedAt: number;
+  /** True when the items came from the network during this call */
+  fresh: boolean;
+  stale?: { since: number; error: string };
+}
+
+export interface FeedCache {
+  get(url: string): Promise<CachedFeed>;
+}
+
+export interface FeedCacheOptions {
+  /** Fetch a feed, sending the validators from the last response */
+  load(url: string, validators: FeedValidators): Promise<FeedResponse>;
+  /** Refresh interval configured for a feed, in milliseconds */
+  refreshInterval(url: string): number | undefined;
+  /** Refresh interval when neither config nor the feed's `<ttl>` set one */
+  defaultTtl(): number;
+  now?: () => number;
+}
+
+interface FeedEntry extends FeedValidators {
+  items: Parser.Item[];
+  fetchedAt: number;
+  expiresAt: number;
+  /** The feed's `<ttl>` in minutes, kept for 304 responses that omit it */
+  ttl?: number;
+}
+
+/**
+ * Create an in-memory feed cache. Fresh entries are served without a request;
+ * expired ones are revalidated with a conditional GET. If a refresh fails the
+ * previous items are served as stale. Concurrent requests for the same feed
+ * share one fetch.
+ */
+export function createFeedCache({
+  load,
+  refreshInterval,
+  defaultTtl,
+  now = Date.now,
+}: FeedCacheOptions): FeedCache {
+  const entries = new Map<string, FeedEntry>();
+  const inFlight = new Map<string, Promise<CachedFeed>>();
+
+  const refresh = async (url: string): Promise<CachedFeed> => {
+    const entry = entries.get(url);
+    let response: FeedResponse;
+    try {
+      response = await load(
+        url,
+        entry ? { etag: entry.etag, lastModified: entry.lastModified } : {}
+      );
+    } catch (error) {
+      if (!entry) throw error;
+      return {
+        items: entry.items,
+        fetchedAt: entry.fetchedAt,
+        fresh: false,
+        stale: {
+          since: entry.expiresAt,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    // Config wins over the feed's own ttl, which is in minutes
+    const feedTtl = response.notModified ? entry?.ttl : response.ttl;
+    const ttl =
+      refreshInterval(url) ??
+      (feedTtl !== undefined ? feedTtl * 60 * 1000 : defaultTtl());
+    const fetchedAt = now();
+
+    if (response.notModified && entry) {
+      entry.expiresAt = fetchedAt + ttl;
+      return { items: entry.items, fetchedAt: entry.fetchedAt, fresh: false };
+    }
+
+    entries.set(url, {
+      items: response.items,
+      etag: response.etag,
+      lastModified: response.lastModified,
+      fetchedAt,
+      expiresAt: fetchedAt + ttl,
+      ttl: response.ttl,
+    });
+    return { items: response.items, fetchedAt, fresh: true };
+  };
+
+  return {
+    get(url) {
+      const entry = entries.get(url);
+      if (entry && entry.expiresAt > now()) {
+        return Promise.resolve({
+          items: entry.items,
+          fetchedAt: entry.fetchedAt,
+          fresh: false,
+        });
+      }
+
+      let pending = inFlight.get(url);
+      if (!pending) {
+        pending = refresh(url).finally(() => inFlight.delete(url));
+        inFlight.set(url, pending);
+      }
+      return pending;
+    },
+  };
+}
+
+export interface QueryCache<T> {
+  get(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Create a short-lived cache of query results. Failed loads are not cached,
+ * and concurrent loads of the same key share one promise.
+ */
+export function createQueryCache<T>(
+  ttl: () => number,
+  maxEntries: number = 200,
+  now: () => number = Date.now
+): QueryCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  return {
+    get(key, load) {
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > now()) return Promise.resolve(entry.value);
+      entries.delete(key);
+
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = load()
+          .then((value) => {
+            if (ttl() > 0) {
+              entries.set(key, { value, expiresAt: now() + ttl() });
+              // Maps iterate in insertion order, so the oldest entries go first
+              for (const oldest of entries.keys()) {
+                if (entries.size <= maxEntries) break;
+                entries.delete(oldest);
+              }
+            }
+            return value;
+          })
+          .finally(() => inFlight.delete(key));
+        inFlight.set(key, pending);
+      }
+      return pending;
+    },
+  };
+}
+
+/**
+ * Build a cache key for a Nostr query that doesn't depend on relay order or
+ * filter key order
+ */
+export function nostrQueryKey(relays: string[], filter: object): string {
+  const sortKeys = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(sortKeys)
+      : value && typeof value === 'object'
+        ? Object.fromEntries(
+            Object.entries(value)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([key, item]) => [key, sortKeys(item)])
+          )
+        : value;
+  return JSON.stringify([[...new Set(relays)].sort(), sortKeys(filter)]);
+}
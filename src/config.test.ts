@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  CONFIG_VERSION,
+  ConfigError,
+  createConfigStore,
+  migrateConfig,
+  parseConfig,
+  type Config,
+} from './config';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(import.meta.dir, 'fixtures/config', name), 'utf8');
+
+describe('parseConfig', () => {
+  test('migrates a version 1 config', () => {
+    const { config, migrated } = parseConfig(fixture('v1.json'));
+
+    expect(migrated).toBe(true);
+    expect(config).toMatchObject({
+      version: CONFIG_VERSION,
+      relays: { friends: ['wss://friends.example'] },
+      archive: { enabled: false, path: 'archive.sqlite' },
+      relayTimeouts: { default: 5000, perRelay: {} },
+    });
+    expect(config.rssFeeds.groups).toEqual({});
+    expect(config.rssFeeds.custom).toEqual({
+      blog: 'https://blog.example.com/rss',
+    });
+  });
+
+  test('leaves a current config as it is', () => {
+    const { config } = parseConfig(fixture('v1.json'));
+    const reparsed = parseConfig(JSON.stringify(config));
+
+    expect(reparsed).toEqual({ config, migrated: false });
+  });
+
+  test('rejects configs newer than the server', () => {
+    const text = JSON.stringify({
+      ...JSON.parse(fixture('v1.json')),
+      version: CONFIG_VERSION + 1,
+    });
+
+    expect(() => parseConfig(text)).toThrow(ConfigError);
+    expect(() => parseConfig(text)).toThrow(
+      `Config version ${CONFIG_VERSION + 1} is newer than this server supports`
+    );
+  });
+
+  test('reports JSON and schema errors with their location', () => {
+    expect(() => parseConfig('{', 'config.json')).toThrow(
+      'Invalid JSON in config.json'
+    );
+    expect(() => parseConfig('[]', 'config.json')).toThrow(
+      'expected a JSON object'
+    );
+    expect(() =>
+      parseConfig(
+        fixture('v1.json').replace('wss://news.example', 'https://news'),
+        'config.json'
+      )
+    ).toThrow('relays.news.0: must be a ws:// or wss:// relay URL');
+    // A malformed section is reported rather than replaced by the migration
+    expect(() =>
+      parseConfig(
+        JSON.stringify({ ...JSON.parse(fixture('v1.json')), rssFeeds: 'x' })
+      )
+    ).toThrow('rssFeeds:');
+  });
+});
+
+describe('migrateConfig', () => {
+  test('keeps sections that are already present', () => {
+    const archive = { enabled: true, path: 'items.sqlite' };
+    const { config } = migrateConfig({
+      rssFeeds: { groups: { tech: ['blog'] } },
+      archive,
+    });
+
+    expect(config.archive).toBe(archive);
+    expect(config.rssFeeds).toEqual({ groups: { tech: ['blog'] } });
+  });
+});
+
+describe('createConfigStore', () => {
+  let dir: string;
+  let configPath: string;
+  let examplePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nostr-mcp-config-'));
+    configPath = path.join(dir, 'config.json');
+    examplePath = path.join(dir, 'config.example.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const read = (file: string) => fs.readFileSync(file, 'utf8');
+
+  test('saves through a temp file and keeps the previous file', () => {
+    const original = fixture('v1.json');
+    fs.writeFileSync(configPath, original);
+    const store = createConfigStore(
+      configPath,
+      examplePath,
+      {} as unknown as Config
+    );
+
+    // Loading a version 1 file migrates it and backs up the original
+    const config = store.load();
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(read(`${configPath}.bak`)).toBe(original);
+    expect(JSON.parse(read(configPath))).toEqual(config);
+
+    const migrated = read(configPath);
+    const updated: Config = {
+      ...config,
+      relays: { ...config.relays, custom: ['wss://custom.example'] },
+    };
+    store.save(updated);
+
+    expect(JSON.parse(read(configPath))).toEqual(updated);
+    expect(read(`${configPath}.bak`)).toBe(migrated);
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      'config.json',
+      'config.json.bak',
+    ]);
+    expect(createConfigStore(configPath, examplePath, config).load()).toEqual(
+      updated
+    );
+  });
+
+  test('creates the config from the example when missing', () => {
+    fs.writeFileSync(examplePath, fixture('v1.json'));
+    const config = createConfigStore(
+      configPath,
+      examplePath,
+      {} as unknown as Config
+    ).load();
+
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(JSON.parse(read(configPath))).toEqual(config);
+    expect(fs.existsSync(`${configPath}.bak`)).toBe(false);
+  });
+
+  test('never overwrites a config it cannot parse', () => {
+    fs.writeFileSync(configPath, '{ "relays": ');
+    const store = createConfigStore(
+      configPath,
+      examplePath,
+      {} as unknown as Config
+    );
+
+    expect(() => store.load()).toThrow(ConfigError);
+    expect(read(configPath)).toBe('{ "relays": ');
+    expect(fs.readdirSync(dir)).toEqual(['config.json']);
+  });
+});
@@ -0,0 +1,418 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { nextCronTime, parseCron } from './scheduler';
+
+export const CONFIG_VERSION = 2;
+
+const relayUrl = z
+  .string()
+  .regex(/^wss?:\/\/\S+$/, 'must be a ws:// or wss:// relay URL');
+const feedUrl = z.string().url('must be a valid feed URL');
+
+const relayGroup = z.array(relayUrl);
+
+export const watchlistSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('nostr'),
+      relayGroup: z.string().min(1),
+      kinds: z.array(z.number().int().nonnegative()).optional(),
+      authors: z.array(z.string().min(1)).optional(),
+      hashtags: z.array(z.string().min(1)).optional(),
+      keywords: z.array(z.string().min(1)).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('rss'),
+      feed: z.string().min(1),
+      keywords: z.array(z.string().min(1)).optional(),
+      pollInterval: z.number().int().min(60000).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('author'),
+      relayGroup: z.string().min(1),
+      author: z.string().min(1),
+    })
+    .strict(),
+]);
+
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+const cronExpression = z.string().superRefine((value, context) => {
+  try {
+    nextCronTime(parseCron(value), new Date());
+  } catch (error) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export const scheduledJobSchema = z
+  .object({
+    schedule: cronExpression,
+    relayGroups: z.array(z.string().min(1)).optional(),
+    feeds: z.array(z.string().min(1)).optional(),
+    limit: z.number().int().positive().optional(),
+    formats: z
+      .array(z.enum(['markdown', 'html', 'rss']))
+      .min(1)
+      .optional(),
+    enabled: z.boolean().optional(),
+  })
+  .strict()
+  .refine((job) => job.relayGroups?.length || job.feeds?.length, {
+    message: 'needs at least one relay group or feed',
+  });
+
+export type ScheduledJob = z.infer<typeof scheduledJobSchema>;
+
+export const configSchema = z
+  .object({
+    version: z.literal(CONFIG_VERSION),
+    relays: z
+      .object({
+        trending: relayGroup,
+        news: relayGroup,
+        custom: relayGroup,
+      })
+      .catchall(relayGroup),
+    rssFeeds: z
+      .object({
+        stackerNews: feedUrl,
+        hackerNews: z
+          .object({
+            newest: feedUrl,
+            frontpage: feedUrl,
+            bestComments: feedUrl,
+            ask: feedUrl,
+            show: feedUrl,
+          })
+          .catchall(feedUrl),
+        custom: z.record(z.string(), feedUrl),
+        groups: z.record(z.string(), z.array(z.string())).optional(),
+      })
+      .strict(),
+    archive: z
+      .object({ enabled: z.boolean(), path: z.string().min(1) })
+      .strict()
+      .optional(),
+    relayTimeouts: z
+      .object({
+        default: z.number().int().positive(),
+        perRelay: z.record(z.string(), z.number().int().positive()),
+      })
+      .strict()
+      .optional(),
+    articles: z
+      .object({
+        cacheDir: z.string().min(1),
+        cacheTtl: z.number().int().nonnegative(),
+        maxBytes: z.number().int().positive(),
+        timeout: z.number().int().positive(),
+        maxLength: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    publish: z
+      .object({
+        secretKey: z.string().optional(),
+        bunker: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+    moderation: z
+      .object({
+        enabled: z.boolean(),
+        muteListPubkey: z.string().optional(),
+        mutedPubkeys: z.array(z.string()),
+        mutedWords: z.array(z.string().min(1)),
+        mutedHashtags: z.array(z.string().min(1)),
+        mutedDomains: z.array(z.string().min(1)),
+        contentWarnings: z.enum(['hide', 'flag', 'show']),
+        spam: z
+          .object({
+            duplicates: z.boolean(),
+            maxMentions: z.number().int().positive(),
+            maxLinks: z.number().int().positive(),
+          })
+          .strict(),
+      })
+      .strict()
+      .optional(),
+    watchlists: z.record(z.string(), watchlistSchema).optional(),
+    cache: z
+      .object({
+        feedTtl: z.number().int().nonnegative(),
+        nostrTtl: z.number().int().nonnegative(),
+        refreshIntervals: z.record(z.string(), z.number().int().positive()),
+      })
+      .strict()
+      .optional(),
+    http: z
+      .object({
+        port: z.number().int().min(1).max(65535),
+        host: z.string().min(1),
+        authToken: z.string().optional(),
+        corsOrigins: z.array(z.string()),
+        allowedHosts: z.array(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    scheduler: z
+      .object({
+        outputDir: z.string().min(1),
+        baseUrl: z.string().url().optional(),
+        jobs: z.record(z.string(), scheduledJobSchema),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type Config = z.infer<typeof configSchema>;
+
+/**
+ * Raised when the config file can't be read, parsed or validated. The file
+ * is never overwritten in that case.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * Check for a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Configs without a
+ * version field are version 1.
+ */
+const MIGRATIONS: Record<number, (config: RawConfig) => RawConfig> = {
+  // Version 2 adds the version field and fills in sections added since the
+  // original relays/rssFeeds layout
+  1: (config) => ({
+    ...config,
+    version: 2,
+    // Leave a malformed rssFeeds for the schema to report
+    rssFeeds: isRecord(config.rssFeeds)
+      ? { groups: {}, ...config.rssFeeds }
+      : config.rssFeeds,
+    archive: config.archive ?? { enabled: false, path: 'archive.sqlite' },
+    relayTimeouts: config.relayTimeouts ?? { default: 5000, perRelay: {} },
+  }),
+};
+
+/**
+ * Upgrade a raw config to the current version
+ */
+export function migrateConfig(raw: RawConfig): {
+  config: RawConfig;
+  migrated: boolean;
+} {
+  let config = raw;
+  let version = typeof raw.version === 'number' ? raw.version : 1;
+
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(
+      `Config version ${version} is newer than this server supports (${CONFIG_VERSION})`
+    );
+  }
+
+  while (version < CONFIG_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ConfigError(`No migration from config version ${version}`);
+    }
+    config = migrate(config);
+    version++;
+  }
+
+  return { config, migrated: config !== raw };
+}
+
+/**
+ * Format Zod issues as one line per problem, e.g. `rssFeeds.custom.blog: must
+ * be a valid feed URL`
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const location = issue.path.join('.') || '(root)';
+      return `  ${location}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Parse config file contents: JSON syntax, then migrations, then the schema
+ */
+export function parseConfig(
+  text: string,
+  source: string = 'config'
+): { config: Config; migrated: boolean } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(
+      `Invalid JSON in ${source}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (!isRecord(raw)) {
+    throw new ConfigError(`Invalid ${source}: expected a JSON object`);
+  }
+
+  const { config, migrated } = migrateConfig(raw);
+  const result = configSchema.safeParse(config);
+  if (!result.success) {
+    throw new ConfigError(`Invalid ${source}:\n${formatIssues(result.error)}`);
+  }
+
+  return { config: result.data, migrated };
+}
+
+/**
+ * Read a `--name <value>` or `--name=<value>` command line flag
+ */
+export function readFlag(argv: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  const index = argv.findIndex(
+    (arg) => arg === flag || arg.startsWith(`${flag}=`)
+  );
+  if (index === -1) return undefined;
+  return argv[index]?.startsWith(`${flag}=`)
+    ? argv[index]?.slice(flag.length + 1)
+    : argv[index + 1];
+}
+
+/**
+ * Resolve the config path from a `--config <path>` / `--config=<path>` flag,
+ * then the CONFIG_PATH environment variable, then the fallback
+ */
+export function resolveConfigPath(
+  argv: string[],
+  env: Record<string, string | undefined>,
+  fallback: string
+): string {
+  return path.resolve(readFlag(argv, 'config') || env.CONFIG_PATH || fallback);
+}
+
+export interface ConfigStore {
+  path: string;
+  load(): Config;
+  save(config: Config): void;
+  watch(
+    onChange: (config: Config) => void,
+    onError: (error: Error) => void
+  ): () => void;
+}
+
+/**
+ * Create a store for the config file. Writes go to a temp file that is renamed
+ * over the original, keeping the previous contents in `<path>.bak`.
+ */
+export function createConfigStore(
+  configPath: string,
+  examplePath: string,
+  defaults: Config
+): ConfigStore {
+  // Last contents read or written, so the watcher skips our own writes
+  let lastText: string | undefined;
+
+  const save = (config: Config) => {
+    const text = JSON.stringify(config, null, 2) + '\n';
+    const tempPath = `${configPath}.${process.pid}.tmp`;
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(tempPath, text, 'utf8');
+    try {
+      if (fs.existsSync(configPath)) {
+        fs.copyFileSync(configPath, `${configPath}.bak`);
+      }
+      fs.renameSync(tempPath, configPath);
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      throw error;
+    }
+    lastText = text;
+  };
+
+  return {
+    path: configPath,
+
+    load() {
+      if (fs.existsSync(configPath)) {
+        const text = fs.readFileSync(configPath, 'utf8');
+        const { config, migrated } = parseConfig(text, configPath);
+        lastText = text;
+        if (migrated) {
+          console.error(
+            `Migrated ${configPath} to version ${CONFIG_VERSION} (previous version saved to ${configPath}.bak)`
+          );
+          save(config);
+        }
+        return config;
+      }
+
+      if (fs.existsSync(examplePath)) {
+        console.error('Config file not found. Creating from example...');
+        const { config } = parseConfig(
+          fs.readFileSync(examplePath, 'utf8'),
+          examplePath
+        );
+        save(config);
+        return config;
+      }
+
+      console.error(
+        'No config or example config found. Creating with defaults...'
+      );
+      save(defaults);
+      return defaults;
+    },
+
+    save,
+
+    watch(onChange, onError) {
+      // Watch the directory, since renames replace the file being watched
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const watcher = fs.watch(path.dirname(configPath), (_, filename) => {
+        if (filename !== path.basename(configPath)) return;
+
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          try {
+            if (!fs.existsSync(configPath)) return;
+            const text = fs.readFileSync(configPath, 'utf8');
+            if (text === lastText) return;
+
+            const { config } = parseConfig(text, configPath);
+            lastText = text;
+            onChange(config);
+          } catch (error) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+          }
+        }, 100);
+      });
+
+      return () => {
+        clearTimeout(timer);
+        watcher.close();
+      };
+    },
+  };
+}
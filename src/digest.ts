@@ -0,0 +1,356 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatItem, formatItemMarkdown } from './output';
+import type { FormattedItem } from './sources';
+
+export type DigestFormat = 'markdown' | 'html' | 'rss';
+
+export interface DigestSection {
+  source: string;
+  items: FormattedItem[];
+  error?: string;
+  /** Relay, cache and moderation notes from the source */
+  note?: string;
+}
+
+export interface Digest {
+  title: string;
+  generatedAt: Date;
+  sections: DigestSection[];
+  /** Items dropped because an earlier section had them */
+  duplicates: number;
+}
+
+/**
+ * A past digest in a job's feed
+ */
+interface FeedEntry {
+  id: string;
+  title: string;
+  date: string;
+  link: string;
+  html: string;
+}
+
+const HISTORY_FILE = 'history.json';
+const FEED_FILE = 'feed.xml';
+const FEED_LENGTH = 20;
+
+const HTML_STYLE = `
+body { font: 16px/1.5 system-ui, sans-serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+h2 { border-bottom: 1px solid #ddd; margin-top: 2.5rem; }
+article { margin: 1.5rem 0; }
+.meta, .summary { color: #666; font-size: 0.9rem; }
+.meta ul { margin: 0.25rem 0; padding-left: 1.2rem; }
+blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1rem; }
+`.trim();
+
+/**
+ * Sort items newest first, keeping items with unknown dates at the end
+ */
+function sortItemsByDate(items: FormattedItem[]): FormattedItem[] {
+  const time = (item: FormattedItem) => {
+    const value = Date.parse(item.date);
+    return Number.isNaN(value) ? -Infinity : value;
+  };
+  return [...items].sort((a, b) => time(b) - time(a));
+}
+
+/**
+ * Escape text for HTML and XML
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * One line for the item count, then one per source with its count, error or
+ * notes
+ */
+export function summarizeDigest(digest: Digest): string[] {
+  const total = digest.sections.reduce((sum, s) => sum + s.items.length, 0);
+  return [
+    `${digest.title}: ${total} items from ${digest.sections.length} sources` +
+      (digest.duplicates > 0
+        ? ` (${digest.duplicates} duplicates removed)`
+        : ''),
+    ...digest.sections.map(
+      (s) =>
+        `- ${s.source}: ${s.error ? `failed (${s.error})` : `${s.items.length} items`}` +
+        (s.note ? ` (${s.note.replace(/\n/g, '; ')})` : '')
+    ),
+  ];
+}
+
+/**
+ * Render a digest as plain text, grouped by source
+ */
+export function renderDigestText(digest: Digest): string {
+  const body = digest.sections
+    .filter((s) => s.items.length > 0)
+    .map((s) =>
+      [
+        `## ${s.source} (${s.items.length})`,
+        ...sortItemsByDate(s.items).map(formatItem),
+      ].join('\n\n')
+    );
+  return [summarizeDigest(digest).join('\n'), ...body].join('\n\n');
+}
+
+/**
+ * Render a digest as a markdown document
+ */
+export function renderDigestMarkdown(digest: Digest): string {
+  const body = digest.sections
+    .filter((s) => s.items.length > 0)
+    .map((s) =>
+      [
+        `## ${s.source} (${s.items.length})`,
+        sortItemsByDate(s.items)
+          .map((item) => formatItemMarkdown(item))
+          .join('\n\n---\n\n'),
+      ].join('\n\n')
+    );
+
+  return [
+    `# ${digest.title}`,
+    `*${digest.generatedAt.toISOString()}*`,
+    summarizeDigest(digest).join('\n'),
+    ...body,
+  ].join('\n\n');
+}
+
+/**
+ * Render a digest as JSON, with each source's items, notes and errors
+ */
+export function renderDigestJson(digest: Digest): string {
+  return JSON.stringify(
+    {
+      title: digest.title,
+      generatedAt: digest.generatedAt.toISOString(),
+      duplicates: digest.duplicates,
+      sections: digest.sections.map((s) => ({
+        ...s,
+        items: sortItemsByDate(s.items),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Render an item as an HTML article. Only http(s) links are linked.
+ */
+function renderItemHtml(item: FormattedItem): string {
+  const link = item.link && /^https?:\/\//i.test(item.link) ? item.link : '';
+  const heading = escapeXml(item.title || item.date);
+  const parts = [
+    link
+      ? `<h3><a href="${escapeXml(link)}">${heading}</a></h3>`
+      : `<h3>${heading}</h3>`,
+  ];
+
+  const byline = [item.title ? item.date : '', item.author].filter(Boolean);
+  const metadata = Object.entries(item.metadata ?? {}).filter(([, v]) => v);
+  if (byline.length > 0 || metadata.length > 0) {
+    parts.push(
+      `<div class="meta">${escapeXml(byline.join(' · '))}` +
+        (metadata.length > 0
+          ? `<ul>${metadata.map(([key, value]) => `<li>${escapeXml(key)}: ${escapeXml(value)}</li>`).join('')}</ul>`
+          : '') +
+        '</div>'
+    );
+  }
+
+  const paragraphs = item.content
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) =>
+      paragraph.startsWith('> ')
+        ? `<blockquote>${escapeXml(paragraph.replace(/^> ?/gm, '')).replace(/\n/g, '<br>')}</blockquote>`
+        : `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`
+    );
+  parts.push(...paragraphs);
+
+  return `<article>\n${parts.join('\n')}\n</article>`;
+}
+
+/**
+ * Render the body of a digest as an HTML fragment, used in the standalone
+ * page and in feed entries
+ */
+export function renderDigestHtmlBody(digest: Digest): string {
+  const [summary, ...sources] = summarizeDigest(digest);
+  return [
+    `<p class="summary">${escapeXml(summary!)}</p>`,
+    `<ul class="summary">${sources.map((line) => `<li>${escapeXml(line.slice(2))}</li>`).join('')}</ul>`,
+    ...digest.sections
+      .filter((s) => s.items.length > 0)
+      .map(
+        (s) =>
+          `<section>\n<h2>${escapeXml(s.source)} (${s.items.length})</h2>\n` +
+          sortItemsByDate(s.items).map(renderItemHtml).join('\n') +
+          '\n</section>'
+      ),
+  ].join('\n');
+}
+
+/**
+ * Render a digest as a standalone HTML page
+ */
+export function renderDigestHtml(digest: Digest): string {
+  const title = escapeXml(digest.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+${HTML_STYLE}
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">${digest.generatedAt.toISOString()}</p>
+${renderDigestHtmlBody(digest)}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render past digests as an RSS 2.0 feed with the HTML in each entry
+ */
+function renderDigestFeed(
+  title: string,
+  link: string,
+  entries: FeedEntry[]
+): string {
+  // `]]>` would end the CDATA section early
+  const cdata = (html: string) =>
+    `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+  const items = entries.map((entry) =>
+    [
+      '<item>',
+      `<title>${escapeXml(entry.title)}</title>`,
+      `<link>${escapeXml(entry.link)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(entry.id)}</guid>`,
+      `<pubDate>${new Date(entry.date).toUTCString()}</pubDate>`,
+      `<description>${cdata(entry.html)}</description>`,
+      '</item>',
+    ].join('\n')
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+<channel>
+<title>${escapeXml(title)}</title>
+<link>${escapeXml(link)}</link>
+<description>${escapeXml(title)}</description>
+<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+${items.join('\n')}
+</channel>
+</rss>
+`;
+}
+
+/**
+ * Write a file through a temporary file, so readers never see it half done
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, content, 'utf8');
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * File name stem for a digest, e.g. `2024-05-01-0700`, in local time
+ */
+function digestStem(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * Write a digest to `<outputDir>/<name>/` in the requested formats. The RSS
+ * feed (`feed.xml`) keeps the most recent digests, linking to their HTML (or
+ * markdown) files under `baseUrl` when one is set. Returns the paths written.
+ */
+export function writeDigest(
+  digest: Digest,
+  {
+    outputDir,
+    name,
+    formats,
+    baseUrl,
+  }: {
+    outputDir: string;
+    name: string;
+    formats: DigestFormat[];
+    baseUrl?: string;
+  }
+): string[] {
+  const dir = path.resolve(outputDir, name);
+  fs.mkdirSync(dir, { recursive: true });
+  const stem = digestStem(digest.generatedAt);
+  const outputs: string[] = [];
+  const write = (file: string, content: string) => {
+    const filePath = path.join(dir, file);
+    writeFileAtomic(filePath, content);
+    outputs.push(filePath);
+  };
+
+  if (formats.includes('markdown')) {
+    write(`${stem}.md`, renderDigestMarkdown(digest));
+  }
+  if (formats.includes('html')) write(`${stem}.html`, renderDigestHtml(digest));
+
+  if (formats.includes('rss')) {
+    const url = (file: string) =>
+      baseUrl
+        ? new URL(
+            `${encodeURIComponent(name)}/${file}`,
+            `${baseUrl.replace(/\/?$/, '/')}`
+          ).href
+        : file;
+    const page = formats.includes('html')
+      ? `${stem}.html`
+      : formats.includes('markdown')
+        ? `${stem}.md`
+        : FEED_FILE;
+
+    const historyPath = path.join(dir, HISTORY_FILE);
+    let history: FeedEntry[] = [];
+    try {
+      history = JSON.parse(fs.readFileSync(historyPath, 'utf8'));
+    } catch {
+      // No digests written yet
+    }
+    history = [
+      {
+        id: `${name}-${stem}`,
+        title: `${digest.title} (${digest.generatedAt.toISOString().slice(0, 10)})`,
+        date: digest.generatedAt.toISOString(),
+        link: url(page),
+        html: renderDigestHtmlBody(digest),
+      },
+      // A second run in the same minute replaces the first
+      ...history.filter((entry) => entry.id !== `${name}-${stem}`),
+    ].slice(0, FEED_LENGTH);
+
+    writeFileAtomic(historyPath, JSON.stringify(history));
+    write(FEED_FILE, renderDigestFeed(digest.title, url(FEED_FILE), history));
+  }
+
+  return outputs;
+}
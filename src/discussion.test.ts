@@ -0,0 +1,225 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  fetchDiscussion,
+  fetchHackerNewsDiscussion,
+  fetchStackerNewsDiscussion,
+  parseDiscussionId,
+  type DiscussionComment,
+} from './discussion';
+import type { Fetcher } from './identifiers';
+
+const fixture = (name: string) =>
+  fs.readFileSync(
+    path.join(import.meta.dir, 'fixtures/discussions', name),
+    'utf8'
+  );
+
+/**
+ * Replay a recorded API response and record the requests made
+ */
+function replay(
+  name: string,
+  status = 200
+): Fetcher & { requests: { url: string; init?: RequestInit }[] } {
+  const requests: { url: string; init?: RequestInit }[] = [];
+  const fetcher = async (url: string, init?: RequestInit) => {
+    requests.push({ url, init });
+    return new Response(fixture(name), {
+      status,
+      headers: { 'content-type': 'application/json' },
+    });
+  };
+  return Object.assign(fetcher, { requests });
+}
+
+/**
+ * Comment ids in breadth-first order
+ */
+function ids(comments: DiscussionComment[]): string[] {
+  const result: string[] = [];
+  let level = comments;
+  while (level.length > 0) {
+    result.push(...level.map((comment) => comment.id));
+    level = level.flatMap((comment) => comment.children);
+  }
+  return result;
+}
+
+const NO_LIMITS = { maxDepth: 10, maxComments: 100 };
+
+describe('parseDiscussionId', () => {
+  test('reads ids from item URLs and bare ids', () => {
+    expect(
+      parseDiscussionId('https://news.ycombinator.com/item?p=2&id=40000001')
+    ).toEqual({ source: 'hackerNews', id: '40000001' });
+    expect(parseDiscussionId('https://stacker.news/items/400000/r/ek')).toEqual(
+      { source: 'stackerNews', id: '400000' }
+    );
+    expect(parseDiscussionId(' 400000 ', 'stackerNews')).toEqual({
+      source: 'stackerNews',
+      id: '400000',
+    });
+    expect(() => parseDiscussionId('https://example.com/1')).toThrow(
+      'is not a Hacker News or Stacker News item id or URL'
+    );
+  });
+});
+
+describe('fetchHackerNewsDiscussion', () => {
+  test('maps a recorded Algolia item and its comment tree', async () => {
+    const fetcher = replay('hn-item.json');
+    const discussion = await fetchHackerNewsDiscussion(
+      '40000001',
+      NO_LIMITS,
+      fetcher
+    );
+
+    expect(fetcher.requests[0]?.url).toBe(
+      'https://hn.algolia.com/api/v1/items/40000001'
+    );
+    expect(fetcher.requests[0]?.init?.signal).toBeInstanceOf(AbortSignal);
+    expect(discussion).toMatchObject({
+      source: 'hackerNews',
+      id: '40000001',
+      link: 'https://news.ycombinator.com/item?id=40000001',
+      title: 'Show HN: A Nostr MCP server',
+      url: 'https://github.com/example/nostr-mcp',
+      author: 'alice',
+      points: 142,
+      pointsLabel: 'points',
+      commentCount: 6,
+      truncated: false,
+    });
+    expect(discussion.text).toBeUndefined();
+
+    const [first, deleted, last] = discussion.comments;
+    expect(first?.text).toBe(
+      'Nice. Does it support NIP-50 search?\n\nSee https://github.com/nostr-protocol/nips/blob/master/50.md'
+    );
+    expect(first?.children[0]?.text).toBe(
+      "It does, and falls back to filtering locally on relays that don't."
+    );
+    expect(first?.children[0]?.children[0]?.text).toBe('Great & thanks!');
+    // Deleted comments stay when they have replies
+    expect(deleted).toMatchObject({ id: '40000020', text: '[deleted]' });
+    expect(deleted?.children[0]?.author).toBe('carol');
+    expect(last?.id).toBe('40000040');
+  });
+
+  test('keeps the shallowest comments within the limits', async () => {
+    const byCount = await fetchHackerNewsDiscussion(
+      '40000001',
+      { maxDepth: 10, maxComments: 4 },
+      replay('hn-item.json')
+    );
+    expect(ids(byCount.comments)).toEqual([
+      '40000010',
+      '40000020',
+      '40000040',
+      '40000011',
+    ]);
+    expect(byCount).toMatchObject({ commentCount: 4, truncated: true });
+
+    const byDepth = await fetchHackerNewsDiscussion(
+      '40000001',
+      { maxDepth: 1, maxComments: 100 },
+      replay('hn-item.json')
+    );
+    expect(ids(byDepth.comments)).toEqual(['40000010', '40000020', '40000040']);
+    expect(byDepth.truncated).toBe(true);
+  });
+
+  test('fails on error statuses', async () => {
+    await expect(
+      fetchHackerNewsDiscussion('1', NO_LIMITS, replay('hn-item.json', 404))
+    ).rejects.toThrow('failed with status 404');
+  });
+});
+
+describe('fetchStackerNewsDiscussion', () => {
+  test('maps a recorded GraphQL item and its comments', async () => {
+    const fetcher = replay('sn-item.json');
+    const discussion = await fetchStackerNewsDiscussion(
+      '400000',
+      { maxDepth: 6, maxComments: 100 },
+      fetcher
+    );
+
+    const { url, init } = fetcher.requests[0]!;
+    expect(url).toBe('https://stacker.news/api/graphql');
+    expect(init?.method).toBe('POST');
+    const body = JSON.parse(String(init?.body));
+    expect(body.variables).toEqual({ id: '400000' });
+    expect(body.query.match(/comments \{ comments \{/g)).toHaveLength(6);
+
+    expect(discussion).toMatchObject({
+      source: 'stackerNews',
+      link: 'https://stacker.news/items/400000',
+      title: 'Stacker News threads over Nostr',
+      author: 'ek',
+      points: 2100,
+      pointsLabel: 'sats',
+      text: 'Discussion of **long threads**.',
+      commentCount: 7,
+    });
+    expect(discussion.comments[0]).toMatchObject({
+      id: '501',
+      author: 'ek',
+      points: 10,
+    });
+    expect(discussion.comments[1]).toMatchObject({
+      id: '520',
+      text: 'A short top-level comment.',
+      children: [],
+    });
+    expect(discussion.comments[1]?.moreReplies).toBeUndefined();
+  });
+
+  test('marks replies cut at the nesting limit', async () => {
+    const discussion = await fetchStackerNewsDiscussion(
+      '400000',
+      { maxDepth: 10, maxComments: 100 },
+      replay('sn-item.json')
+    );
+
+    // The query never nests deeper than the API allows
+    let deepest = discussion.comments[0];
+    for (let depth = 1; depth < 6; depth++) deepest = deepest?.children[0];
+    expect(deepest).toMatchObject({
+      id: '506',
+      children: [],
+      moreReplies: 3,
+    });
+    expect(discussion.truncated).toBe(true);
+  });
+
+  test('reports API errors and missing items', async () => {
+    const errors: Fetcher = async () =>
+      Response.json({ errors: [{ message: 'rate limited' }] });
+    await expect(
+      fetchStackerNewsDiscussion('1', NO_LIMITS, errors)
+    ).rejects.toThrow('Stacker News API error: rate limited');
+
+    const missing: Fetcher = async () =>
+      Response.json({ data: { item: null } });
+    await expect(
+      fetchStackerNewsDiscussion('1', NO_LIMITS, missing)
+    ).rejects.toThrow('Stacker News item 1 not found');
+  });
+});
+
+describe('fetchDiscussion', () => {
+  test('routes ids and URLs to the right API', async () => {
+    const hn = replay('hn-item.json');
+    await fetchDiscussion('40000001', NO_LIMITS, { fetcher: hn });
+    expect(hn.requests[0]?.url).toStartWith('https://hn.algolia.com/');
+
+    const sn = replay('sn-item.json');
+    await fetchDiscussion('https://stacker.news/items/400000', NO_LIMITS, {
+      fetcher: sn,
+    });
+    expect(sn.requests[0]?.url).toBe('https://stacker.news/api/graphql');
+  });
+});
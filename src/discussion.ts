@@ -0,0 +1,300 @@
+import { decodeEntities } from './feeds';
+import type { Fetcher } from './identifiers';
+
+export type DiscussionSource = 'hackerNews' | 'stackerNews';
+
+export interface DiscussionComment {
+  id: string;
+  author?: string;
+  date?: string;
+  /** HN points or Stacker News sats, when the API reports them */
+  points?: number;
+  text: string;
+  children: DiscussionComment[];
+  /** Replies left out because the API's nesting limit was reached */
+  moreReplies?: number;
+}
+
+export interface Discussion {
+  source: DiscussionSource;
+  id: string;
+  link: string;
+  title?: string;
+  url?: string;
+  author?: string;
+  date?: string;
+  points?: number;
+  /** 'points' on Hacker News, 'sats' on Stacker News */
+  pointsLabel: string;
+  text?: string;
+  comments: DiscussionComment[];
+  /** Comments included after depth and count limits */
+  commentCount: number;
+  truncated: boolean;
+}
+
+export interface DiscussionLimits {
+  maxDepth: number;
+  maxComments: number;
+}
+
+const HN_ITEM_API = 'https://hn.algolia.com/api/v1/items/';
+const STACKER_NEWS_API = 'https://stacker.news/api/graphql';
+const REQUEST_TIMEOUT = 15000;
+
+// Stacker News nests comment pages; this many levels are requested at most
+const STACKER_NEWS_MAX_DEPTH = 6;
+
+/**
+ * Work out which site and item an id or URL refers to. Bare ids use
+ * `defaultSource`.
+ */
+export function parseDiscussionId(
+  input: string,
+  defaultSource: DiscussionSource = 'hackerNews'
+): { source: DiscussionSource; id: string } {
+  const value = input.trim();
+
+  const hn = value.match(/news\.ycombinator\.com\/item\?(?:.*&)?id=(\d+)/);
+  if (hn?.[1]) return { source: 'hackerNews', id: hn[1] };
+
+  const sn = value.match(/stacker\.news\/items\/(\d+)/);
+  if (sn?.[1]) return { source: 'stackerNews', id: sn[1] };
+
+  if (/^\d+$/.test(value)) return { source: defaultSource, id: value };
+
+  throw new Error(
+    `'${input}' is not a Hacker News or Stacker News item id or URL`
+  );
+}
+
+/**
+ * Convert HN comment HTML to plain text, keeping paragraph breaks
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<p>/gi, '\n\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<a\b[^>]*href="([^"]*)"[^>]*>[\s\S]*?<\/a>/gi, '$1')
+      .replace(/<[^>]*>/g, '')
+  ).trim();
+}
+
+/**
+ * Fetch JSON with a timeout, failing on non-2xx responses
+ */
+async function fetchJson(
+  fetcher: Fetcher,
+  url: string,
+  init: RequestInit = {}
+): Promise<unknown> {
+  const response = await fetcher(url, {
+    ...init,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Build a comment tree breadth-first so the comment limit keeps the
+ * shallowest replies, skipping deleted comments that have no replies
+ */
+function buildComments<T>(
+  roots: T[],
+  { maxDepth, maxComments }: DiscussionLimits,
+  toComment: (node: T) => DiscussionComment | undefined,
+  childrenOf: (node: T) => T[]
+): { comments: DiscussionComment[]; count: number; truncated: boolean } {
+  const comments: DiscussionComment[] = [];
+  let count = 0;
+  let truncated = false;
+  let level = roots.map((node) => ({ node, siblings: comments }));
+
+  for (let depth = 1; level.length > 0; depth++) {
+    if (depth > maxDepth) {
+      truncated = true;
+      break;
+    }
+
+    const next: typeof level = [];
+    for (const { node, siblings } of level) {
+      const comment = toComment(node);
+      if (!comment) continue;
+      if (count >= maxComments) {
+        truncated = true;
+        break;
+      }
+      siblings.push(comment);
+      count++;
+      for (const child of childrenOf(node)) {
+        next.push({ node: child, siblings: comment.children });
+      }
+    }
+    level = truncated ? [] : next;
+  }
+
+  return { comments, count, truncated };
+}
+
+interface HnItem {
+  id: number;
+  created_at?: string;
+  author?: string | null;
+  title?: string | null;
+  url?: string | null;
+  text?: string | null;
+  points?: number | null;
+  children?: HnItem[];
+}
+
+/**
+ * Fetch a Hacker News story or comment and its replies from the Algolia API
+ */
+export async function fetchHackerNewsDiscussion(
+  id: string,
+  limits: DiscussionLimits,
+  fetcher: Fetcher = fetch
+): Promise<Discussion> {
+  const item = (await fetchJson(fetcher, `${HN_ITEM_API}${id}`)) as HnItem;
+
+  const { comments, count, truncated } = buildComments(
+    item.children ?? [],
+    limits,
+    (node) =>
+      !node.text && !node.children?.length
+        ? undefined
+        : {
+            id: String(node.id),
+            author: node.author ?? undefined,
+            date: node.created_at,
+            points: node.points ?? undefined,
+            text: node.text ? htmlToText(node.text) : '[deleted]',
+            children: [],
+          },
+    (node) => node.children ?? []
+  );
+
+  return {
+    source: 'hackerNews',
+    id: String(item.id),
+    link: `https://news.ycombinator.com/item?id=${item.id}`,
+    title: item.title ?? undefined,
+    url: item.url ?? undefined,
+    author: item.author ?? undefined,
+    date: item.created_at,
+    points: item.points ?? undefined,
+    pointsLabel: 'points',
+    text: item.text ? htmlToText(item.text) : undefined,
+    comments,
+    commentCount: count,
+    truncated,
+  };
+}
+
+interface StackerNewsItem {
+  id: string;
+  title?: string | null;
+  url?: string | null;
+  text?: string | null;
+  sats?: number | null;
+  createdAt?: string;
+  ncomments?: number | null;
+  user?: { name?: string } | null;
+  comments?: { comments?: StackerNewsItem[] } | null;
+}
+
+interface StackerNewsResponse {
+  data?: { item?: StackerNewsItem | null } | null;
+  errors?: { message?: string }[];
+}
+
+/**
+ * Build the nested Stacker News comments selection down to `depth` levels
+ */
+function stackerNewsCommentsQuery(depth: number): string {
+  if (depth === 0) return '';
+  return `comments { comments { id text sats createdAt ncomments user { name } ${stackerNewsCommentsQuery(depth - 1)} } }`;
+}
+
+/**
+ * Fetch a Stacker News item and its comments from the GraphQL API
+ */
+export async function fetchStackerNewsDiscussion(
+  id: string,
+  limits: DiscussionLimits,
+  fetcher: Fetcher = fetch
+): Promise<Discussion> {
+  const depth = Math.max(1, Math.min(limits.maxDepth, STACKER_NEWS_MAX_DEPTH));
+  const query = `query Item($id: ID!) { item(id: $id) { id title url text sats createdAt user { name } ${stackerNewsCommentsQuery(depth)} } }`;
+
+  const response = (await fetchJson(fetcher, STACKER_NEWS_API, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables: { id } }),
+  })) as StackerNewsResponse;
+  if (response.errors?.length) {
+    throw new Error(
+      `Stacker News API error: ${response.errors.map((e) => e.message).join(', ')}`
+    );
+  }
+  const item = response.data?.item;
+  if (!item) throw new Error(`Stacker News item ${id} not found`);
+
+  // Comments on the deepest requested level come without their replies
+  let cut = false;
+  const { comments, count, truncated } = buildComments(
+    item.comments?.comments ?? [],
+    limits,
+    (node) => {
+      const moreReplies = node.comments ? 0 : (node.ncomments ?? 0);
+      if (moreReplies > 0) cut = true;
+      return {
+        id: String(node.id),
+        author: node.user?.name,
+        date: node.createdAt,
+        points: node.sats ?? undefined,
+        text: node.text?.trim() || '[deleted]',
+        children: [],
+        ...(moreReplies > 0 ? { moreReplies } : {}),
+      };
+    },
+    (node) => node.comments?.comments ?? []
+  );
+
+  return {
+    source: 'stackerNews',
+    id: String(item.id),
+    link: `https://stacker.news/items/${item.id}`,
+    title: item.title ?? undefined,
+    url: item.url ?? undefined,
+    author: item.user?.name,
+    date: item.createdAt,
+    points: item.sats ?? undefined,
+    pointsLabel: 'sats',
+    text: item.text?.trim() || undefined,
+    comments,
+    commentCount: count,
+    truncated: truncated || cut,
+  };
+}
+
+/**
+ * Fetch the discussion for an HN or Stacker News id or URL
+ */
+export function fetchDiscussion(
+  input: string,
+  limits: DiscussionLimits,
+  {
+    defaultSource,
+    fetcher = fetch,
+  }: { defaultSource?: DiscussionSource; fetcher?: Fetcher } = {}
+): Promise<Discussion> {
+  const { source, id } = parseDiscussionId(input, defaultSource);
+  return source === 'hackerNews'
+    ? fetchHackerNewsDiscussion(id, limits, fetcher)
+    : fetchStackerNewsDiscussion(id, limits, fetcher);
+}
@@ -0,0 +1,136 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+
+export interface Engagement {
+  reactions: number;
+  reposts: number;
+  replies: number;
+  zaps: number;
+  zappedSats: number;
+}
+
+type QueryFunction = (
+  relays: string[],
+  filter: Filter
+) => Promise<NostrEvent[]>;
+
+const IDS_PER_FILTER = 100;
+const EVENTS_PER_NOTE = 200;
+const BOLT11_MULTIPLIERS: Record<string, number> = {
+  '': 1e8,
+  m: 1e5,
+  u: 1e2,
+  n: 1e-1,
+  p: 1e-4,
+};
+
+/**
+ * Read the amount in sats from the human-readable part of a bolt11 invoice
+ */
+export function parseBolt11Sats(invoice: string): number {
+  const match = invoice
+    .toLowerCase()
+    .match(/^ln(?:bcrt|bc|tbs|tb)(\d+)([munp]?)1/);
+  if (!match) return 0;
+  const [, amount = '0', unit = ''] = match;
+  return Math.floor(Number(amount) * (BOLT11_MULTIPLIERS[unit] ?? 0));
+}
+
+/**
+ * Get the ids of target notes a reaction, repost, reply or zap refers to.
+ * Replies only count `root`/`reply` markers (or unmarked tags), not mentions.
+ */
+function getReferencedIds(event: NostrEvent, targets: Set<string>): string[] {
+  return [
+    ...new Set(
+      event.tags
+        .filter(
+          (tag) =>
+            tag[0] === 'e' &&
+            tag[1] !== undefined &&
+            targets.has(tag[1]) &&
+            (event.kind !== 1 || tag[3] !== 'mention')
+        )
+        .map((tag) => tag[1] as string)
+    ),
+  ];
+}
+
+/**
+ * Count reactions (7), reposts (6), replies (1) and zap receipts (9735) that
+ * reference the given notes. Each batch of ids is a single filter, so one
+ * call opens one subscription per batch on the relay set.
+ */
+export async function fetchEngagement(
+  query: QueryFunction,
+  relays: string[],
+  events: NostrEvent[]
+): Promise<Map<string, Engagement>> {
+  const stats = new Map<string, Engagement>(
+    events.map((event) => [
+      event.id,
+      { reactions: 0, reposts: 0, replies: 0, zaps: 0, zappedSats: 0 },
+    ])
+  );
+  const ids = [...stats.keys()];
+  const targets = new Set(ids);
+
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += IDS_PER_FILTER) {
+    batches.push(ids.slice(i, i + IDS_PER_FILTER));
+  }
+
+  const results = await Promise.all(
+    batches.map((batch) =>
+      query(relays, {
+        kinds: [1, 6, 7, 9735],
+        '#e': batch,
+        limit: batch.length * EVENTS_PER_NOTE,
+      })
+    )
+  );
+
+  const seen = new Set<string>();
+  for (const reference of results.flat()) {
+    if (seen.has(reference.id)) continue;
+    seen.add(reference.id);
+
+    for (const id of getReferencedIds(reference, targets)) {
+      const entry = stats.get(id);
+      if (!entry) continue;
+
+      switch (reference.kind) {
+        case 7:
+          entry.reactions++;
+          break;
+        case 6:
+          entry.reposts++;
+          break;
+        case 1:
+          entry.replies++;
+          break;
+        case 9735: {
+          entry.zaps++;
+          const bolt11 = reference.tags.find((tag) => tag[0] === 'bolt11');
+          if (bolt11?.[1]) entry.zappedSats += parseBolt11Sats(bolt11[1]);
+          break;
+        }
+      }
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Weighted engagement score used to re-rank notes
+ */
+export function engagementScore(engagement: Engagement): number {
+  return (
+    engagement.reactions +
+    engagement.replies * 2 +
+    engagement.reposts * 3 +
+    engagement.zaps * 3 +
+    Math.sqrt(engagement.zappedSats)
+  );
+}
@@ -0,0 +1,306 @@
+import { verifyEvent, type NostrEvent } from 'nostr-tools/pure';
+import {
+  decode,
+  naddrEncode,
+  neventEncode,
+  npubEncode,
+} from 'nostr-tools/nip19';
+
+export const REPOST_KIND = 6;
+export const GENERIC_REPOST_KIND = 16;
+export const HIGHLIGHT_KIND = 9802;
+export const LONG_FORM_KIND = 30023;
+
+/**
+ * What kind formatters need besides the event itself
+ */
+export interface EventFormatContext {
+  /** Display name from a cached profile, if there is one */
+  displayName(pubkey: string): string | undefined;
+  /** Relays the event was seen on, used as hints in naddr/nevent codes */
+  relays?: string[];
+}
+
+/**
+ * The kind-specific parts of a formatted item. `date` is only set when the
+ * event carries its own publication time.
+ */
+export interface FormattedEvent {
+  title?: string;
+  date?: number;
+  content: string;
+  link?: string;
+  metadata: Record<string, string>;
+}
+
+const PROFILE_MENTION_PATTERN = /nostr:((?:npub|nprofile)1[02-9ac-hj-np-z]+)/gi;
+
+// Relay hints kept in generated naddr/nevent codes
+const MAX_RELAY_HINTS = 3;
+
+/**
+ * Value of the first tag named `name`
+ */
+function tagValue(event: NostrEvent, name: string): string | undefined {
+  return event.tags.find((tag) => tag[0] === name)?.[1];
+}
+
+/**
+ * Run a NIP-19 encoder, returning undefined when a tag holds invalid hex
+ */
+function tryEncode(encode: () => string): string | undefined {
+  try {
+    return encode();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode a `nostr:npub`/`nprofile` mention to its pubkey
+ */
+function mentionPubkey(code: string): string | undefined {
+  try {
+    const decoded = decode(code);
+    if (decoded.type === 'npub') return decoded.data;
+    if (decoded.type === 'nprofile') return decoded.data.pubkey;
+  } catch {
+    // Not a valid code; leave the mention as it is
+  }
+  return undefined;
+}
+
+/**
+ * Pubkeys whose names appear when an event is formatted: `nostr:` mentions,
+ * highlighted authors and the author of an embedded repost. Their profiles
+ * can be loaded before formatting.
+ */
+export function getReferencedPubkeys(event: NostrEvent): string[] {
+  const pubkeys = [...event.content.matchAll(PROFILE_MENTION_PATTERN)].map(
+    (match) => mentionPubkey(match[1]!)
+  );
+  if (event.kind === HIGHLIGHT_KIND) {
+    pubkeys.push(
+      ...event.tags.filter((tag) => tag[0] === 'p').map((tag) => tag[1])
+    );
+  }
+  if (event.kind === REPOST_KIND || event.kind === GENERIC_REPOST_KIND) {
+    pubkeys.push(tagValue(event, 'p'));
+  }
+  return [...new Set(pubkeys.filter((pubkey): pubkey is string => !!pubkey))];
+}
+
+/**
+ * Replace `nostr:npub`/`nprofile` mentions with `@name`, or a shortened npub
+ * when the profile isn't known
+ */
+function formatMentions(
+  content: string,
+  displayName: EventFormatContext['displayName']
+): string {
+  return content.replace(PROFILE_MENTION_PATTERN, (mention, code: string) => {
+    const pubkey = mentionPubkey(code);
+    if (!pubkey) return mention;
+    const name = displayName(pubkey);
+    if (name) return `@${name}`;
+    const npub = npubEncode(pubkey);
+    return `@${npub.slice(0, 12)}…${npub.slice(-4)}`;
+  });
+}
+
+/**
+ * Build the naddr code of a long-form article
+ */
+function articleAddress(event: NostrEvent, relays: string[] = []): string {
+  return naddrEncode({
+    kind: event.kind,
+    pubkey: event.pubkey,
+    identifier: tagValue(event, 'd') ?? '',
+    relays: relays.slice(0, MAX_RELAY_HINTS),
+  });
+}
+
+/**
+ * Keep only the newest version of each replaceable article (same author and
+ * `d` tag), preserving order
+ */
+export function latestArticleVersions(events: NostrEvent[]): NostrEvent[] {
+  const newest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    const key = `${event.pubkey}:${tagValue(event, 'd') ?? ''}`;
+    const current = newest.get(key);
+    if (!current || event.created_at > current.created_at) {
+      newest.set(key, event);
+    }
+  }
+  const kept = new Set(newest.values());
+  return events.filter((event) => kept.has(event));
+}
+
+/**
+ * NIP-23 article: title, summary, image and original publication time, with
+ * an naddr link
+ */
+function formatArticle(
+  event: NostrEvent,
+  context: EventFormatContext
+): FormattedEvent {
+  const metadata: Record<string, string> = {};
+  const summary = tagValue(event, 'summary');
+  if (summary) metadata.summary = summary;
+  const image = tagValue(event, 'image');
+  if (image) metadata.image = image;
+
+  const published = Number(tagValue(event, 'published_at'));
+  const date =
+    Number.isFinite(published) && published > 0 ? published : undefined;
+  if (date && date !== event.created_at) {
+    metadata.updated = new Date(event.created_at * 1000).toISOString();
+  }
+
+  return {
+    title:
+      tagValue(event, 'title') || tagValue(event, 'd') || 'Untitled article',
+    date,
+    content: formatMentions(event.content, context.displayName),
+    link: `nostr:${articleAddress(event, context.relays)}`,
+    metadata,
+  };
+}
+
+/**
+ * NIP-84 highlight: the quoted text, its surrounding context and where it
+ * came from (a URL, an article or a note)
+ */
+function formatHighlight(
+  event: NostrEvent,
+  context: EventFormatContext
+): FormattedEvent {
+  const metadata: Record<string, string> = {};
+  const quoted = event.content
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+
+  const highlightContext = tagValue(event, 'context');
+  if (highlightContext) metadata.context = highlightContext;
+
+  const address = tagValue(event, 'a');
+  const eventId = tagValue(event, 'e');
+  const url = tagValue(event, 'r');
+  if (address) {
+    const [kind, pubkey = '', identifier = ''] = address.split(':');
+    const naddr = tryEncode(() =>
+      naddrEncode({ kind: Number(kind), pubkey, identifier })
+    );
+    metadata.source = naddr ? `nostr:${naddr}` : address;
+  } else if (eventId) {
+    const nevent = tryEncode(() => neventEncode({ id: eventId }));
+    if (nevent) metadata.source = `nostr:${nevent}`;
+  }
+
+  const authors = event.tags
+    .filter((tag) => tag[0] === 'p' && tag[1])
+    .map(
+      (tag) =>
+        context.displayName(tag[1]!) ??
+        tryEncode(() => npubEncode(tag[1]!)) ??
+        tag[1]!
+    );
+  if (authors.length > 0) metadata.sourceAuthor = authors.join(', ');
+
+  const comment = tagValue(event, 'comment');
+  return {
+    title: 'Highlight',
+    content: comment
+      ? `${quoted}\n\n${formatMentions(comment, context.displayName)}`
+      : quoted,
+    link: url,
+    metadata,
+  };
+}
+
+/**
+ * NIP-18 repost: the embedded original when it's present and verifies,
+ * otherwise a reference to it
+ */
+function formatRepost(
+  event: NostrEvent,
+  context: EventFormatContext
+): FormattedEvent {
+  const metadata: Record<string, string> = {};
+  const originalId = tagValue(event, 'e');
+  const nevent =
+    originalId &&
+    tryEncode(() =>
+      neventEncode({
+        id: originalId,
+        relays: context.relays?.slice(0, MAX_RELAY_HINTS),
+      })
+    );
+  if (nevent) metadata.original = `nostr:${nevent}`;
+
+  let original: NostrEvent | undefined;
+  try {
+    const parsed = event.content ? JSON.parse(event.content) : undefined;
+    // The embedded event is checked too, or anyone could put words in the
+    // original author's mouth
+    if (parsed && verifyEvent(parsed)) original = parsed;
+  } catch {
+    // Not embedded JSON; fall back to the reference
+  }
+
+  if (!original) {
+    return {
+      title: 'Repost',
+      content: metadata.original
+        ? `Reposted ${metadata.original}`
+        : 'Reposted a note',
+      metadata,
+    };
+  }
+
+  const author =
+    context.displayName(original.pubkey) ??
+    `${npubEncode(original.pubkey).slice(0, 12)}…`;
+  metadata.originalAuthor = author;
+  metadata.originalDate = new Date(original.created_at * 1000).toISOString();
+
+  // Embedded reposts are shown one level deep
+  const inner =
+    original.kind === REPOST_KIND || original.kind === GENERIC_REPOST_KIND
+      ? { content: original.content, title: undefined }
+      : formatEventContent(original, { displayName: context.displayName });
+  return {
+    title: inner.title
+      ? `Repost of ${author}: ${inner.title}`
+      : `Repost of ${author}`,
+    content: inner.content,
+    metadata,
+  };
+}
+
+/**
+ * Format the kind-specific parts of an event: articles, highlights and
+ * reposts get their own layout, and profile mentions become readable names
+ * for every kind
+ */
+export function formatEventContent(
+  event: NostrEvent,
+  context: EventFormatContext
+): FormattedEvent {
+  switch (event.kind) {
+    case LONG_FORM_KIND:
+      return formatArticle(event, context);
+    case HIGHLIGHT_KIND:
+      return formatHighlight(event, context);
+    case REPOST_KIND:
+    case GENERIC_REPOST_KIND:
+      return formatRepost(event, context);
+    default:
+      return {
+        content: formatMentions(event.content, context.displayName),
+        metadata: {},
+      };
+  }
+}
@@ -0,0 +1,281 @@
+import { describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildOpml,
+  createFeedParser,
+  fetchFeedConditional,
+  isJsonFeed,
+  parseFeedDocument,
+  parseOpml,
+} from './feeds';
+import type { HostLookup } from './article';
+import type { Fetcher } from './identifiers';
+
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(import.meta.dir, 'fixtures/feeds', name), 'utf8');
+
+const parser = createFeedParser();
+
+/**
+ * Resolve every host to a public address, except intranet names
+ */
+const lookup: HostLookup = async (hostname) =>
+  hostname.startsWith('intranet.') ? ['10.0.0.8'] : ['93.184.216.34'];
+
+describe('parseFeedDocument', () => {
+  test('parses RSS with the channel ttl', async () => {
+    const { items, ttl } = await parseFeedDocument(parser, fixture('rss.xml'));
+
+    expect(ttl).toBe(30);
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      title: 'Relays add NIP-50 search',
+      link: 'https://news.example.com/nip-50',
+      guid: 'story-2',
+      creator: 'Alice',
+      isoDate: '2024-05-14T09:30:00.000Z',
+      categories: ['nostr'],
+      contentSnippet: 'Search is now built in.',
+    });
+    expect(items[1]?.title).toBe('Lightning & zaps explained');
+  });
+
+  test('maps Atom authors, ids, summaries and category terms', async () => {
+    const { items, ttl } = await parseFeedDocument(parser, fixture('atom.xml'));
+
+    expect(ttl).toBeUndefined();
+    expect(items).toEqual([
+      expect.objectContaining({
+        title: 'Outbox model in practice',
+        link: 'https://blog.example.com/outbox',
+        guid: 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a',
+        creator: 'Bob',
+        isoDate: '2024-05-14T11:00:00.000Z',
+        contentSnippet: 'Reading from write relays.',
+        categories: ['nostr', 'relays'],
+      }),
+    ]);
+  });
+
+  test('detects and parses JSON Feed', async () => {
+    const body = fixture('feed.json');
+    expect(isJsonFeed(body)).toBe(true);
+    expect(isJsonFeed(fixture('rss.xml'))).toBe(false);
+
+    const { items } = await parseFeedDocument(parser, body);
+    expect(items).toEqual([
+      {
+        guid: '42',
+        link: 'https://json.example.com/posts/42',
+        title: 'JSON Feed support',
+        creator: 'Carol',
+        content: '<p>Feeds in <strong>JSON</strong>.</p>',
+        contentSnippet: expect.stringContaining('Feeds in JSON'),
+        summary: undefined,
+        isoDate: '2024-05-12T06:00:00.000Z',
+        pubDate: '2024-05-12T08:00:00+02:00',
+        categories: ['feeds', 'json'],
+      },
+      expect.objectContaining({
+        guid: 'text-only',
+        link: 'https://elsewhere.example.com/',
+        creator: 'Dave',
+        contentSnippet: 'A link post without a title.',
+        isoDate: '2024-05-11T08:00:00.000Z',
+      }),
+    ]);
+  });
+
+  test('keeps JSON Feed items with unparseable dates', async () => {
+    const { items } = await parseFeedDocument(
+      parser,
+      fixture('feed-bad-date.json')
+    );
+    expect(items).toEqual([
+      expect.objectContaining({
+        guid: 'bad-date',
+        title: 'Published sometime',
+        isoDate: undefined,
+        pubDate: 'last Tuesday',
+      }),
+    ]);
+  });
+
+  test('rejects JSON documents without a JSON Feed version', async () => {
+    await expect(
+      parseFeedDocument(
+        parser,
+        fixture('feed-bad-version.json'),
+        'application/json'
+      )
+    ).rejects.toThrow('Not a JSON Feed document');
+  });
+
+  test('trusts a JSON content type over sniffing', () => {
+    expect(isJsonFeed('{}', 'application/feed+json; charset=utf-8')).toBe(true);
+  });
+});
+
+describe('fetchFeedConditional', () => {
+  test('sends validators and reports 304 Not Modified', async () => {
+    const requests: RequestInit[] = [];
+    const fetcher: Fetcher = async (_url, init) => {
+      requests.push(init ?? {});
+      return new Response(null, { status: 304 });
+    };
+
+    const response = await fetchFeedConditional(
+      parser,
+      'https://news.example.com/rss',
+      { etag: '"v1"', lastModified: 'Tue, 14 May 2024 09:30:00 GMT' },
+      fetcher,
+      lookup
+    );
+
+    expect(response).toEqual({
+      etag: '"v1"',
+      lastModified: 'Tue, 14 May 2024 09:30:00 GMT',
+      notModified: true,
+      items: [],
+    });
+    expect(requests[0]?.headers).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Tue, 14 May 2024 09:30:00 GMT',
+    });
+    expect(requests[0]?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test('returns items and new validators', async () => {
+    const fetcher: Fetcher = async () =>
+      new Response(fixture('feed.json'), {
+        headers: { 'content-type': 'application/feed+json', etag: '"v2"' },
+      });
+
+    const response = await fetchFeedConditional(
+      parser,
+      'https://json.example.com/feed.json',
+      {},
+      fetcher,
+      lookup
+    );
+    expect(response.notModified).toBe(false);
+    expect(response.etag).toBe('"v2"');
+    expect(response.items.map((item) => item.guid)).toEqual([
+      '42',
+      'text-only',
+    ]);
+  });
+
+  test('fails on error statuses', async () => {
+    const fetcher: Fetcher = async () => new Response('gone', { status: 410 });
+    await expect(
+      fetchFeedConditional(
+        parser,
+        'https://gone.example.com/',
+        {},
+        fetcher,
+        lookup
+      )
+    ).rejects.toThrow('Status code 410');
+  });
+
+  test('only fetches feeds on public addresses, redirects included', async () => {
+    const urls: string[] = [];
+    const fetcher: Fetcher = async (url) => {
+      urls.push(url);
+      return url.endsWith('/old')
+        ? new Response(null, {
+            status: 301,
+            headers: { location: 'https://json.example.com/feed.json' },
+          })
+        : url === 'https://json.example.com/feed.json'
+          ? new Response(null, {
+              status: 302,
+              headers: { location: 'http://169.254.169.254/latest' },
+            })
+          : new Response(fixture('feed.json'));
+    };
+
+    await expect(
+      fetchFeedConditional(
+        parser,
+        'https://intranet.example.com/rss',
+        {},
+        fetcher,
+        lookup
+      )
+    ).rejects.toThrow('private or local address');
+    expect(urls).toEqual([]);
+
+    await expect(
+      fetchFeedConditional(
+        parser,
+        'https://news.example.com/old',
+        {},
+        fetcher,
+        lookup
+      )
+    ).rejects.toThrow('Refusing to fetch 169.254.169.254');
+    expect(urls).toEqual([
+      'https://news.example.com/old',
+      'https://json.example.com/feed.json',
+    ]);
+  });
+});
+
+describe('OPML', () => {
+  test('maps nested folders to feed group paths', () => {
+    expect(parseOpml(fixture('subscriptions.opml'))).toEqual([
+      {
+        title: 'Top level',
+        url: 'https://top.example.com/rss',
+        folder: undefined,
+      },
+      {
+        title: 'Example News',
+        url: 'https://news.example.com/rss',
+        folder: 'Tech',
+      },
+      {
+        title: 'Example Blog',
+        url: 'https://blog.example.com/atom.xml',
+        folder: 'Tech/Nostr',
+      },
+      {
+        title: 'https://json.example.com/feed.json',
+        url: 'https://json.example.com/feed.json',
+        folder: 'Reading & Writing',
+      },
+    ]);
+  });
+
+  test('rejects documents that are not OPML', () => {
+    expect(() => parseOpml(fixture('rss.xml'))).toThrow('Not an OPML document');
+  });
+
+  test('round-trips groups through export and import', () => {
+    const opml = buildOpml('Export', [
+      { feeds: [{ title: 'Loose', url: 'https://loose.example.com/rss' }] },
+      {
+        title: 'News & views',
+        feeds: [
+          { title: 'A "quoted" feed', url: 'https://a.example.com/?x=1&y=2' },
+        ],
+      },
+    ]);
+
+    expect(parseOpml(opml)).toEqual([
+      {
+        title: 'Loose',
+        url: 'https://loose.example.com/rss',
+        folder: undefined,
+      },
+      {
+        title: 'A "quoted" feed',
+        url: 'https://a.example.com/?x=1&y=2',
+        folder: 'News & views',
+      },
+    ]);
+  });
+});
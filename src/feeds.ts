@@ -0,0 +1,354 @@
+import Parser from 'rss-parser';
+import { fetchPublicUrl, type HostLookup } from './article';
+import type { Fetcher } from './identifiers';
+
+export interface OpmlFeed {
+  title: string;
+  url: string;
+  folder?: string;
+}
+
+export interface OpmlFolder {
+  title?: string;
+  feeds: { title: string; url: string }[];
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  author?: { name?: string };
+  authors?: { name?: string }[];
+  tags?: string[];
+}
+
+/**
+ * Cache validators from an earlier response to the same feed
+ */
+export interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Result of a conditional feed request. `items` is empty when the server
+ * answered 304 Not Modified.
+ */
+export interface FeedResponse extends FeedValidators {
+  notModified: boolean;
+  items: Parser.Item[];
+  /** RSS `<ttl>`, in minutes */
+  ttl?: number;
+}
+
+type FeedFields = { ttl?: string };
+
+// Atom fields rss-parser copies but does not map onto the RSS item shape
+type AtomItem = Parser.Item & {
+  author?: string;
+  id?: string;
+  atomCategories?: { $?: { term?: string; label?: string } }[];
+};
+
+const FEED_TIMEOUT = 30000;
+
+const FEED_ACCEPT =
+  'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8';
+
+/**
+ * Create an rss-parser instance that also keeps Atom categories and the RSS
+ * channel `ttl`
+ */
+export function createFeedParser(): Parser<FeedFields, AtomItem> {
+  return new Parser({
+    customFields: {
+      feed: ['ttl'],
+      item: [['category', 'atomCategories', { keepArray: true }]],
+    },
+  });
+}
+
+/**
+ * Strip HTML tags and decode the common entities, for plain-text snippets
+ */
+function stripHtml(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Decode the XML entities used in feeds and OPML attributes, plus `&nbsp;`
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Escape text for use in an XML attribute
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Check whether a response body is a JSON Feed document
+ */
+export function isJsonFeed(body: string, contentType: string = ''): boolean {
+  if (/application\/(feed\+)?json/i.test(contentType)) return true;
+  return /^\s*\{[\s\S]*"version"\s*:\s*"https:\/\/jsonfeed\.org\/version\//.test(
+    body.slice(0, 2000)
+  );
+}
+
+/**
+ * Parse a JSON Feed (1.0 or 1.1) into rss-parser style items
+ */
+export function parseJsonFeed(body: string): Parser.Item[] {
+  const feed = JSON.parse(body) as { version?: unknown; items?: unknown };
+  if (
+    typeof feed.version !== 'string' ||
+    !feed.version.startsWith('https://jsonfeed.org/version/')
+  ) {
+    throw new Error('Not a JSON Feed document');
+  }
+  if (!Array.isArray(feed.items)) return [];
+
+  return (feed.items as JsonFeedItem[]).map((entry) => {
+    const date = entry.date_published ?? entry.date_modified;
+    const content = entry.content_html ?? entry.content_text;
+    return {
+      guid: entry.id !== undefined ? String(entry.id) : undefined,
+      link: entry.url ?? entry.external_url,
+      title: entry.title,
+      creator: entry.authors?.[0]?.name ?? entry.author?.name,
+      content,
+      contentSnippet:
+        entry.content_text ??
+        entry.summary ??
+        (entry.content_html ? stripHtml(entry.content_html) : undefined),
+      summary: entry.summary,
+      isoDate:
+        date && !Number.isNaN(Date.parse(date))
+          ? new Date(date).toISOString()
+          : undefined,
+      pubDate: date,
+      categories: entry.tags,
+    };
+  });
+}
+
+/**
+ * Map Atom fields onto the RSS item shape the formatters read: author,
+ * entry id, summary-only content and category terms
+ */
+export function normalizeFeedItem(item: AtomItem): Parser.Item {
+  const { author, id, atomCategories, ...rest } = item;
+  const normalized: Parser.Item = { ...rest };
+
+  if (!normalized.creator && author) normalized.creator = author;
+  if (!normalized.guid && id) normalized.guid = id;
+  if (!normalized.contentSnippet && normalized.summary) {
+    normalized.contentSnippet = stripHtml(normalized.summary);
+  }
+
+  const terms = (atomCategories ?? [])
+    .map((category) => category?.$?.term ?? category?.$?.label)
+    .filter((term): term is string => typeof term === 'string');
+  if (
+    (!normalized.categories || normalized.categories.length === 0) &&
+    terms.length > 0
+  ) {
+    normalized.categories = terms;
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse an RSS, Atom or JSON Feed document, with the RSS `<ttl>` in minutes
+ */
+export async function parseFeedDocument(
+  parser: Parser<FeedFields, AtomItem>,
+  body: string,
+  contentType: string = ''
+): Promise<{ items: Parser.Item[]; ttl?: number }> {
+  if (isJsonFeed(body, contentType)) return { items: parseJsonFeed(body) };
+  const feed = await parser.parseString(body);
+  const ttl = Number(feed.ttl);
+  return {
+    items: feed.items.map(normalizeFeedItem),
+    ttl: Number.isFinite(ttl) && ttl > 0 ? ttl : undefined,
+  };
+}
+
+/**
+ * Parse an RSS, Atom or JSON Feed document
+ */
+export async function parseFeed(
+  parser: Parser<FeedFields, AtomItem>,
+  body: string,
+  contentType: string = ''
+): Promise<Parser.Item[]> {
+  return (await parseFeedDocument(parser, body, contentType)).items;
+}
+
+/**
+ * Fetch a feed, sending If-None-Match / If-Modified-Since when validators
+ * from an earlier response are given. Like articles, feeds are only fetched
+ * from public addresses, redirects included.
+ */
+export async function fetchFeedConditional(
+  parser: Parser<FeedFields, AtomItem>,
+  url: string,
+  validators: FeedValidators = {},
+  fetcher: Fetcher = fetch,
+  lookup?: HostLookup
+): Promise<FeedResponse> {
+  const headers: Record<string, string> = { Accept: FEED_ACCEPT };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+
+  const { response } = await fetchPublicUrl(
+    url,
+    { headers, signal: AbortSignal.timeout(FEED_TIMEOUT) },
+    fetcher,
+    lookup
+  );
+  if (response.status === 304) {
+    return { ...validators, notModified: true, items: [] };
+  }
+  if (!response.ok) {
+    throw new Error(`Status code ${response.status}`);
+  }
+
+  const { items, ttl } = await parseFeedDocument(
+    parser,
+    await response.text(),
+    response.headers.get('content-type') ?? ''
+  );
+  return {
+    notModified: false,
+    items,
+    ttl,
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * Fetch and parse a feed from a URL
+ */
+export async function fetchFeed(
+  parser: Parser<FeedFields, AtomItem>,
+  url: string,
+  fetcher: Fetcher = fetch,
+  lookup?: HostLookup
+): Promise<Parser.Item[]> {
+  return (await fetchFeedConditional(parser, url, {}, fetcher, lookup)).items;
+}
+
+/**
+ * Read the attributes of an XML start tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(
+    /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  )) {
+    attributes[match[1] as string] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Extract feed subscriptions from an OPML document. Outlines without an
+ * `xmlUrl` are folders; nested folder titles are joined with '/'.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+  if (!/<opml[\s>]/i.test(xml)) throw new Error('Not an OPML document');
+
+  const feeds: OpmlFeed[] = [];
+  const folders: (string | undefined)[] = [];
+
+  for (const match of xml.matchAll(
+    /<outline\b([^>]*?)(\/?)>|<\/outline\s*>/gi
+  )) {
+    if (match[0].startsWith('</')) {
+      folders.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(match[1] ?? '');
+    const title = attributes.title || attributes.text;
+    const selfClosing = match[2] === '/';
+
+    if (attributes.xmlUrl) {
+      const folderPath = folders.filter(Boolean).join('/');
+      feeds.push({
+        title: title || attributes.xmlUrl,
+        url: attributes.xmlUrl,
+        folder: folderPath || undefined,
+      });
+      if (!selfClosing) folders.push(undefined);
+    } else if (!selfClosing) {
+      folders.push(title);
+    }
+  }
+
+  return feeds;
+}
+
+/**
+ * Build an OPML document; folders without a title are written at top level
+ */
+export function buildOpml(title: string, folders: OpmlFolder[]): string {
+  const outline = (feed: { title: string; url: string }, indent: string) =>
+    `${indent}<outline type="rss" text="${escapeXml(feed.title)}" title="${escapeXml(feed.title)}" xmlUrl="${escapeXml(feed.url)}"/>`;
+
+  const body = folders.flatMap((folder) =>
+    folder.title
+      ? [
+          `    <outline text="${escapeXml(folder.title)}" title="${escapeXml(folder.title)}">`,
+          ...folder.feeds.map((feed) => outline(feed, '      ')),
+          '    </outline>',
+        ]
+      : folder.feeds.map((feed) => outline(feed, '    '))
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...body,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,318 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+import { normalizeURL } from 'nostr-tools/utils';
+import { applyNostrCursor, pageEvents, type NostrCursor } from './pagination';
+
+/**
+ * NIP-65 relay list: where a user reads and where they publish
+ */
+export interface RelayList {
+  read: string[];
+  write: string[];
+}
+
+export interface FollowingFeedOptions {
+  /** Relays to look up contact and relay lists on */
+  indexRelays: string[];
+  /** Only fetch notes newer than this, in seconds */
+  since: number;
+  limit: number;
+  kinds: number[];
+  /** Most relays to query for notes, not counting fallback relays */
+  maxRelays: number;
+  /** How many of each author's write relays to query */
+  relaysPerAuthor: number;
+  /** Count how many follows also follow each author */
+  withOverlap: boolean;
+  /** Continue after a previous page */
+  cursor?: NostrCursor;
+}
+
+export interface FollowingFeed {
+  /** Newest first */
+  events: NostrEvent[];
+  follows: number;
+  /** Authors assigned to each queried relay */
+  relays: Map<string, string[]>;
+  /** Authors queried on fallback relays because no relay list was found */
+  withoutRelayList: number;
+  failedRelays: string[];
+  /** For each followed author, how many other follows also follow them */
+  overlap?: Map<string, number>;
+  /** Cursor for the next page; missing when there are no more notes */
+  nextCursor?: string;
+}
+
+type QueryFunction = (
+  relays: string[],
+  filter: Filter
+) => Promise<NostrEvent[]>;
+
+export const CONTACT_LIST_KIND = 3;
+export const RELAY_LIST_KIND = 10002;
+
+const AUTHORS_PER_FILTER = 100;
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Split a list into batches of at most `size`
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Newest event per author, for replaceable kinds
+ */
+function latestByAuthor(events: NostrEvent[]): Map<string, NostrEvent> {
+  const latest = new Map<string, NostrEvent>();
+  for (const event of events) {
+    const current = latest.get(event.pubkey);
+    if (!current || event.created_at > current.created_at) {
+      latest.set(event.pubkey, event);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Pubkeys followed in a kind 3 contact list
+ */
+export function parseContactList(event: NostrEvent): string[] {
+  return [
+    ...new Set(
+      event.tags
+        .filter((tag) => tag[0] === 'p' && HEX_KEY_PATTERN.test(tag[1] ?? ''))
+        .map((tag) => tag[1]!)
+    ),
+  ];
+}
+
+/**
+ * Normalize a relay URL so the same relay compares equal across lists.
+ * Returns undefined for anything that isn't a WebSocket URL.
+ */
+function normalizeRelay(url: string): string | undefined {
+  if (!/^wss?:\/\//i.test(url)) return undefined;
+  try {
+    return normalizeURL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read and write relays from a NIP-65 relay list. Relays without a marker
+ * are used for both.
+ */
+export function parseRelayList(event: NostrEvent): RelayList {
+  const list: RelayList = { read: [], write: [] };
+  for (const [name, url, marker] of event.tags) {
+    const relay = name === 'r' && url ? normalizeRelay(url) : undefined;
+    if (!relay) continue;
+    if (marker !== 'write' && !list.read.includes(relay)) list.read.push(relay);
+    if (marker !== 'read' && !list.write.includes(relay)) {
+      list.write.push(relay);
+    }
+  }
+  return list;
+}
+
+/**
+ * Choose relays following the outbox model: each author is queried on up to
+ * `relaysPerAuthor` of their write relays, preferring relays shared by many
+ * authors so fewer connections are needed. Authors left without a relay are
+ * assigned to the fallback relays.
+ */
+export function selectOutboxRelays(
+  authors: string[],
+  relayLists: Map<string, RelayList>,
+  fallbackRelays: string[],
+  { maxRelays, relaysPerAuthor }: { maxRelays: number; relaysPerAuthor: number }
+): Map<string, string[]> {
+  const writers = new Map<string, Set<string>>();
+  const needed = new Map<string, number>();
+  for (const author of authors) {
+    const write = relayLists.get(author)?.write ?? [];
+    if (write.length > 0) {
+      needed.set(author, Math.min(relaysPerAuthor, write.length));
+    }
+    for (const relay of write) {
+      writers.set(relay, (writers.get(relay) ?? new Set()).add(author));
+    }
+  }
+
+  // Greedy set cover: repeatedly take the relay serving the most authors that
+  // still need a relay
+  const assignments = new Map<string, string[]>();
+  while (assignments.size < maxRelays) {
+    let best: { relay: string; authors: string[] } | undefined;
+    for (const [relay, relayAuthors] of writers) {
+      if (assignments.has(relay)) continue;
+      const covered = [...relayAuthors].filter(
+        (author) => (needed.get(author) ?? 0) > 0
+      );
+      if (covered.length > (best?.authors.length ?? 0)) {
+        best = { relay, authors: covered };
+      }
+    }
+    if (!best) break;
+
+    assignments.set(best.relay, best.authors);
+    for (const author of best.authors) {
+      needed.set(author, needed.get(author)! - 1);
+    }
+  }
+
+  const assigned = new Set([...assignments.values()].flat());
+  const unassigned = authors.filter((author) => !assigned.has(author));
+  if (unassigned.length > 0) {
+    for (const relay of fallbackRelays) {
+      assignments.set(relay, [
+        ...new Set([...(assignments.get(relay) ?? []), ...unassigned]),
+      ]);
+    }
+  }
+  return assignments;
+}
+
+/**
+ * For each author, count how many of `follows` also follow them
+ */
+export function countFollowOverlap(
+  authors: string[],
+  contactLists: Map<string, string[]>
+): Map<string, number> {
+  const overlap = new Map(authors.map((author) => [author, 0]));
+  for (const [follower, followed] of contactLists) {
+    for (const author of followed) {
+      if (author !== follower && overlap.has(author)) {
+        overlap.set(author, overlap.get(author)! + 1);
+      }
+    }
+  }
+  return overlap;
+}
+
+/**
+ * Load the latest replaceable event of `kind` for each author, in batches
+ */
+async function loadLatest(
+  query: QueryFunction,
+  relays: string[],
+  kind: number,
+  authors: string[]
+): Promise<Map<string, NostrEvent>> {
+  const results = await Promise.all(
+    chunk(authors, AUTHORS_PER_FILTER).map((batch) =>
+      query(relays, { kinds: [kind], authors: batch, limit: batch.length })
+    )
+  );
+  return latestByAuthor(results.flat());
+}
+
+/**
+ * Fetch recent notes from the accounts `pubkey` follows. The contact list
+ * and the follows' NIP-65 relay lists come from the index relays; notes are
+ * fetched from each author's write relays, with the user's own relays (or
+ * the index relays) as a fallback for authors without a relay list.
+ */
+export async function fetchFollowingFeed(
+  query: QueryFunction,
+  pubkey: string,
+  options: FollowingFeedOptions
+): Promise<FollowingFeed> {
+  const indexRelays = options.indexRelays
+    .map(normalizeRelay)
+    .filter((relay): relay is string => !!relay);
+  const own = await query(indexRelays, {
+    kinds: [CONTACT_LIST_KIND, RELAY_LIST_KIND],
+    authors: [pubkey],
+  });
+  const newest = (kind: number) =>
+    latestByAuthor(own.filter((event) => event.kind === kind)).get(pubkey);
+  const relayList = newest(RELAY_LIST_KIND);
+  const ownRelays = relayList && parseRelayList(relayList);
+  let contactList = newest(CONTACT_LIST_KIND);
+
+  // The contact list may only be on the user's own write relays
+  const ownWrite = (ownRelays?.write ?? []).filter(
+    (relay) => !indexRelays.includes(relay)
+  );
+  if (!contactList && ownWrite.length > 0) {
+    [contactList] = await query(ownWrite, {
+      kinds: [CONTACT_LIST_KIND],
+      authors: [pubkey],
+      limit: 1,
+    });
+  }
+  if (!contactList) {
+    throw new Error(`No contact list (kind 3) found for ${pubkey}`);
+  }
+
+  const follows = parseContactList(contactList);
+  const relayLists = new Map(
+    [...(await loadLatest(query, indexRelays, RELAY_LIST_KIND, follows))].map(
+      ([author, event]) => [author, parseRelayList(event)]
+    )
+  );
+
+  const fallbackRelays = ownRelays?.read.length ? ownRelays.read : indexRelays;
+  const relays = selectOutboxRelays(follows, relayLists, fallbackRelays, {
+    maxRelays: options.maxRelays,
+    relaysPerAuthor: options.relaysPerAuthor,
+  });
+
+  const failedRelays: string[] = [];
+  const results = await Promise.all(
+    [...relays].map(async ([relay, authors]) => {
+      try {
+        const batches = await Promise.all(
+          chunk(authors, AUTHORS_PER_FILTER).map((batch) =>
+            query(
+              [relay],
+              applyNostrCursor(
+                { kinds: options.kinds, authors: batch, since: options.since },
+                options.limit,
+                options.cursor
+              )
+            )
+          )
+        );
+        return batches.flat();
+      } catch {
+        failedRelays.push(relay);
+        return [];
+      }
+    })
+  );
+
+  const events = new Map<string, NostrEvent>();
+  for (const event of results.flat()) events.set(event.id, event);
+  const page = pageEvents([...events.values()], options.limit, options.cursor);
+
+  let overlap: Map<string, number> | undefined;
+  if (options.withOverlap) {
+    const contactLists = new Map(
+      [
+        ...(await loadLatest(query, indexRelays, CONTACT_LIST_KIND, follows)),
+      ].map(([author, event]) => [author, parseContactList(event)])
+    );
+    overlap = countFollowOverlap(follows, contactLists);
+  }
+
+  return {
+    events: page.events,
+    follows: follows.length,
+    relays,
+    withoutRelayList: follows.filter((author) => !relayLists.has(author))
+      .length,
+    failedRelays,
+    overlap,
+    nextCursor: page.nextCursor,
+  };
+}
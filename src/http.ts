@@ -0,0 +1,295 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Require `Authorization: Bearer <token>` on MCP endpoints */
+  authToken?: string;
+  /** Origins allowed to call the server from a browser; '*' allows any */
+  corsOrigins: string[];
+  /** Extra `Host` header values to accept, e.g. a public name for 0.0.0.0 */
+  allowedHosts?: string[];
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL = 60 * 1000;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+interface StreamSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Requests (including open GET streams) still being answered */
+  active: number;
+  lastActive: number;
+}
+
+/**
+ * Compare a bearer token in constant time
+ */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  if (!match?.[1]) return false;
+  // Hash both sides so the comparison doesn't leak the token length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * `Host` header values that name this server. A DNS rebinding attack reaches
+ * the server under the attacker's host name, so anything else is refused.
+ * Loopback and wildcard binds accept the loopback names; anything reached
+ * under another name must be listed in `allowedHosts`.
+ */
+function getAllowedHosts(
+  host: string,
+  port: number,
+  extra: string[] = []
+): string[] {
+  const names = ['0.0.0.0', '::', '::1', ...LOOPBACK_HOSTS].includes(host)
+    ? LOOPBACK_HOSTS
+    : [host.includes(':') ? `[${host}]` : host];
+  return [
+    ...new Set([
+      ...names.map((name) => `${name}:${port}`),
+      ...(port === 80 ? names : []),
+      ...extra,
+    ]),
+  ];
+}
+
+/**
+ * Check that a browser request comes from an allowed origin. Requests
+ * without an `Origin` header come from other clients and pass.
+ */
+function isAllowedOrigin(
+  origin: string | undefined,
+  origins: string[]
+): boolean {
+  return !origin || origins.includes('*') || origins.includes(origin);
+}
+
+/**
+ * Add CORS headers when the request's origin is allowed
+ */
+function applyCors(
+  req: IncomingMessage,
+  res: ServerResponse,
+  origins: string[]
+): void {
+  const origin = req.headers.origin;
+  if (!origin || !isAllowedOrigin(origin, origins)) return;
+
+  res.setHeader(
+    'Access-Control-Allow-Origin',
+    origins.includes('*') ? '*' : origin
+  );
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Authorization, Content-Type, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+  );
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read a JSON request body, or undefined when it is too large or malformed
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).byteLength;
+    if (size > MAX_BODY_BYTES) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp`: an initialize request starts a
+ * session and later requests carry its `Mcp-Session-Id` header. Older
+ * clients can still open an SSE stream at `/sse` and post messages to
+ * `/messages?sessionId=...`. Each session gets its own MCP server from
+ * `createMcpServer`, while caches and watchlists are shared by the process.
+ * Streamable sessions idle for 30 minutes are closed. MCP endpoints refuse
+ * unknown `Host` and `Origin` headers; `/health` is always public.
+ */
+export function startHttpServer(
+  options: HttpServerOptions,
+  createMcpServer: () => McpServer
+): Promise<Server> {
+  const streams = new Map<string, StreamSession>();
+  const sessions = new Map<string, SSEServerTransport>();
+  const startedAt = Date.now();
+  const allowedHosts = getAllowedHosts(
+    options.host,
+    options.port,
+    options.allowedHosts
+  );
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    applyCors(req, res, options.corsOrigins);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        transport: 'streamable-http',
+        fallback: 'sse',
+        sessions: streams.size + sessions.size,
+        uptime: Math.round((Date.now() - startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (!allowedHosts.includes(req.headers.host ?? '')) {
+      sendJson(res, 403, { error: `Invalid Host header: ${req.headers.host}` });
+      return;
+    }
+    if (!isAllowedOrigin(req.headers.origin, options.corsOrigins)) {
+      sendJson(res, 403, {
+        error: `Invalid Origin header: ${req.headers.origin}`,
+      });
+      return;
+    }
+
+    if (
+      options.authToken &&
+      !isAuthorized(req.headers.authorization, options.authToken)
+    ) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJson(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      const sessionId = req.headers['mcp-session-id'];
+      if (sessionId !== undefined) {
+        const session = streams.get(String(sessionId));
+        if (!session) {
+          sendJson(res, 404, { error: 'Unknown or expired session' });
+          return;
+        }
+        session.active++;
+        res.on('close', () => {
+          session.active--;
+          session.lastActive = Date.now();
+        });
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+      if (!isInitializeRequest(body)) {
+        sendJson(res, 400, {
+          error: 'Start a session with an initialize request',
+        });
+        return;
+      }
+      const server = createMcpServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) =>
+          void streams.set(id, {
+            transport,
+            server,
+            active: 0,
+            lastActive: Date.now(),
+          }),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) streams.delete(transport.sessionId);
+        server.close().catch(() => {});
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      const server = createMcpServer();
+      sessions.set(transport.sessionId, transport);
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+        server.close().catch(() => {});
+      });
+      await server.connect(transport);
+      return;
+    }
+
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const transport = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        sendJson(res, 404, { error: 'Unknown or expired session' });
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  };
+
+  // Clients that go away without ending their session leave it idle
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT;
+    for (const session of streams.values()) {
+      if (session.active === 0 && session.lastActive < cutoff) {
+        session.transport.close().catch(() => {});
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL);
+  sweep.unref();
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    });
+  });
+
+  server.on('close', () => clearInterval(sweep));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve(server));
+  });
+}
@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  neventEncode,
+  noteEncode,
+  nprofileEncode,
+  npubEncode,
+  nsecEncode,
+} from 'nostr-tools/nip19';
+import { resolveIdentifiers, resolveNip05, type Fetcher } from './identifiers';
+
+const PUBKEY = 'a'.repeat(64);
+const EVENT_ID = 'b'.repeat(64);
+
+/**
+ * Serve a nostr.json document and record the requested URLs
+ */
+function nip05Stub(
+  body: unknown,
+  status = 200
+): Fetcher & { urls: string[]; inits: (RequestInit | undefined)[] } {
+  const urls: string[] = [];
+  const inits: (RequestInit | undefined)[] = [];
+  const fetcher = async (url: string, init?: RequestInit) => {
+    urls.push(url);
+    inits.push(init);
+    return Response.json(body, { status });
+  };
+  return Object.assign(fetcher, { urls, inits });
+}
+
+describe('resolveNip05', () => {
+  test('resolves a name to its pubkey and relays', async () => {
+    const fetcher = nip05Stub({
+      names: { bob: PUBKEY.toUpperCase() },
+      relays: { [PUBKEY.toUpperCase()]: ['wss://relay.example.com'] },
+    });
+
+    expect(await resolveNip05('bob@example.com', fetcher)).toEqual({
+      pubkey: PUBKEY,
+      relays: ['wss://relay.example.com'],
+    });
+    expect(fetcher.urls).toEqual([
+      'https://example.com/.well-known/nostr.json?name=bob',
+    ]);
+  });
+
+  test('looks up `_` for a bare domain', async () => {
+    const fetcher = nip05Stub({ names: { _: PUBKEY } });
+    expect((await resolveNip05('example.com', fetcher)).pubkey).toBe(PUBKEY);
+    expect(fetcher.urls[0]).toEndWith('?name=_');
+  });
+
+  test('passes a timeout signal to the fetcher', async () => {
+    const fetcher = nip05Stub({ names: { bob: PUBKEY } });
+    await resolveNip05('bob@example.com', fetcher);
+    expect(fetcher.inits[0]?.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  test('reports a timed out lookup', async () => {
+    const fetcher: Fetcher = async () => {
+      throw new DOMException('The operation timed out.', 'TimeoutError');
+    };
+    await expect(resolveNip05('bob@example.com', fetcher)).rejects.toThrow(
+      "NIP-05 lookup for 'bob@example.com' timed out"
+    );
+  });
+
+  test('rejects unknown names, bad keys and failed requests', async () => {
+    await expect(
+      resolveNip05('bob@example.com', nip05Stub({ names: {} }))
+    ).rejects.toThrow('was not found');
+    await expect(
+      resolveNip05('bob@example.com', nip05Stub({ names: { bob: 'xyz' } }))
+    ).rejects.toThrow('was not found');
+    await expect(
+      resolveNip05('bob@example.com', nip05Stub({}, 404))
+    ).rejects.toThrow('failed with status 404');
+    await expect(
+      resolveNip05('not an identifier', nip05Stub({}))
+    ).rejects.toThrow('not a valid NIP-05 identifier');
+  });
+});
+
+describe('resolveIdentifiers', () => {
+  test('decodes NIP-19 codes into pubkeys, ids and relay hints', async () => {
+    const resolved = await resolveIdentifiers([
+      npubEncode(PUBKEY),
+      `nostr:${nprofileEncode({ pubkey: PUBKEY, relays: ['wss://a.example'] })}`,
+      noteEncode(EVENT_ID),
+      neventEncode({ id: EVENT_ID, relays: ['wss://b.example'] }),
+    ]);
+
+    expect(resolved).toEqual({
+      pubkeys: [PUBKEY],
+      ids: [EVENT_ID],
+      relays: ['wss://a.example', 'wss://b.example'],
+    });
+  });
+
+  test('treats bare hex as `hexAs`', async () => {
+    expect(await resolveIdentifiers([PUBKEY.toUpperCase()])).toEqual({
+      pubkeys: [PUBKEY],
+      ids: [],
+      relays: [],
+    });
+    expect((await resolveIdentifiers([EVENT_ID], 'id')).ids).toEqual([
+      EVENT_ID,
+    ]);
+  });
+
+  test('resolves NIP-05 names with the given fetcher', async () => {
+    const fetcher = nip05Stub({
+      names: { alice: PUBKEY },
+      relays: { [PUBKEY]: ['wss://c.example'] },
+    });
+    expect(
+      await resolveIdentifiers(['alice@example.com'], 'pubkey', fetcher)
+    ).toEqual({ pubkeys: [PUBKEY], ids: [], relays: ['wss://c.example'] });
+  });
+
+  test('rejects private keys and undecodable input', async () => {
+    await expect(
+      resolveIdentifiers([nsecEncode(new Uint8Array(32).fill(1))])
+    ).rejects.toThrow('Private keys (nsec) are not accepted');
+    await expect(resolveIdentifiers(['npub1invalid'])).rejects.toThrow(
+      "Could not decode identifier 'npub1invalid'"
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { decode } from 'nostr-tools/nip19';
+import { NIP05_REGEX } from 'nostr-tools/nip05';
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface ResolvedIdentifiers {
+  pubkeys: string[];
+  ids: string[];
+  relays: string[];
+}
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+const NIP05_TIMEOUT = 10000;
+
+/**
+ * Resolve a NIP-05 identifier (name@domain) to a pubkey and its relay hints
+ */
+export async function resolveNip05(
+  identifier: string,
+  fetcher: Fetcher = fetch
+): Promise<{ pubkey: string; relays: string[] }> {
+  const match = identifier.match(NIP05_REGEX);
+  if (!match) {
+    throw new Error(`'${identifier}' is not a valid NIP-05 identifier`);
+  }
+  const [, name = '_', domain] = match;
+
+  let response: Response;
+  try {
+    response = await fetcher(
+      `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`,
+      { signal: AbortSignal.timeout(NIP05_TIMEOUT) }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(
+        `NIP-05 lookup for '${identifier}' timed out after ${NIP05_TIMEOUT / 1000}s`
+      );
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `NIP-05 lookup for '${identifier}' failed with status ${response.status}`
+    );
+  }
+
+  const json = (await response.json()) as {
+    names?: Record<string, string>;
+    relays?: Record<string, string[]>;
+  };
+  const pubkey = json.names?.[name];
+  if (!pubkey || !HEX_KEY_PATTERN.test(pubkey)) {
+    throw new Error(`NIP-05 identifier '${identifier}' was not found`);
+  }
+
+  return {
+    pubkey: pubkey.toLowerCase(),
+    relays: json.relays?.[pubkey] ?? [],
+  };
+}
+
+/**
+ * Resolve hex keys, npub/nprofile/note/nevent codes and NIP-05 names into
+ * pubkeys, event ids and relay hints. Bare hex is treated as `hexAs`.
+ */
+export async function resolveIdentifiers(
+  identifiers: string[],
+  hexAs: 'pubkey' | 'id' = 'pubkey',
+  fetcher: Fetcher = fetch
+): Promise<ResolvedIdentifiers> {
+  const resolved: ResolvedIdentifiers = { pubkeys: [], ids: [], relays: [] };
+
+  for (const raw of identifiers) {
+    const identifier = raw.trim().replace(/^nostr:/, '');
+
+    if (HEX_KEY_PATTERN.test(identifier)) {
+      const target = hexAs === 'pubkey' ? resolved.pubkeys : resolved.ids;
+      target.push(identifier.toLowerCase());
+      continue;
+    }
+
+    if (identifier.includes('@')) {
+      const profile = await resolveNip05(identifier, fetcher);
+      resolved.pubkeys.push(profile.pubkey);
+      resolved.relays.push(...profile.relays);
+      continue;
+    }
+
+    let decoded: ReturnType<typeof decode>;
+    try {
+      decoded = decode(identifier);
+    } catch (error) {
+      throw new Error(
+        `Could not decode identifier '${raw}': ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    switch (decoded.type) {
+      case 'npub':
+        resolved.pubkeys.push(decoded.data);
+        break;
+      case 'nprofile':
+        resolved.pubkeys.push(decoded.data.pubkey);
+        resolved.relays.push(...(decoded.data.relays ?? []));
+        break;
+      case 'note':
+        resolved.ids.push(decoded.data);
+        break;
+      case 'nevent':
+        resolved.ids.push(decoded.data.id);
+        resolved.relays.push(...(decoded.data.relays ?? []));
+        break;
+      case 'nsec':
+        throw new Error('Private keys (nsec) are not accepted as identifiers');
+      default:
+        throw new Error(
+          `Unsupported identifier type '${decoded.type}' in '${raw}'`
+        );
+    }
+  }
+
+  return {
+    pubkeys: [...new Set(resolved.pubkeys)],
+    ids: [...new Set(resolved.ids)],
+    relays: [...new Set(resolved.relays)],
+  };
+}
@@ -1,52 +1,203 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  McpServer,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { SimplePool } from 'nostr-tools/pool';
+import { AbstractSimplePool } from 'nostr-tools/abstract-pool';
 import { useWebSocketImplementation } from 'nostr-tools/pool';
-import type { NostrEvent } from 'nostr-tools/pure';
+import type { NostrEvent, VerifiedEvent } from 'nostr-tools/pure';
 import type { Filter } from 'nostr-tools';
+import { decode, noteEncode, npubEncode } from 'nostr-tools/nip19';
 import Parser from 'rss-parser';
 import * as fs from 'fs';
 import * as path from 'path';
+import { openArchive, type Archive, type ArchiveEntry } from './archive';
+import { createArticleCache, fetchArticle, type Article } from './article';
+import { createFeedCache, createQueryCache, nostrQueryKey } from './cache';
+import {
+  buildOpml,
+  createFeedParser,
+  fetchFeed,
+  fetchFeedConditional,
+  parseOpml,
+  type OpmlFolder,
+} from './feeds';
+import {
+  fetchDiscussion,
+  type Discussion,
+  type DiscussionComment,
+} from './discussion';
+import { startHttpServer } from './http';
+import { resolveIdentifiers } from './identifiers';
+import {
+  ConfigError,
+  CONFIG_VERSION,
+  createConfigStore,
+  readFlag,
+  resolveConfigPath,
+  watchlistSchema,
+  type Config,
+  type ScheduledJob,
+  type Watchlist,
+} from './config';
+import {
+  renderDigestJson,
+  renderDigestMarkdown,
+  renderDigestText,
+  summarizeDigest,
+  writeDigest,
+  type Digest,
+  type DigestFormat,
+  type DigestSection,
+} from './digest';
+import {
+  formatItem,
+  formatItemMarkdown,
+  outputSchema,
+  renderItems,
+  toJsonItem,
+  type OutputEntry,
+  type OutputFormat,
+} from './output';
+import {
+  applyNostrCursor,
+  createSnapshotStore,
+  decodeNostrCursor,
+  pageEvents,
+  type PageInfo,
+} from './pagination';
+import {
+  describeModeration,
+  eventPow,
+  eventSubject,
+  mergeReports,
+  moderate,
+  MUTE_LIST_KIND,
+  parseMuteList,
+  type ModerationReport,
+  type ModerationRules,
+  type ModerationSubject,
+  type MuteList,
+} from './moderation';
+import { createProfileCache } from './profiles';
+import {
+  buildEventTemplate,
+  confirmationToken,
+  createSigner,
+  publishEvent,
+} from './publish';
+import { createScheduler, type JobResult } from './scheduler';
+import { fetchThread, filterThread, type ThreadNode } from './thread';
+import {
+  detectTopics,
+  getItemLinks,
+  getItemTokens,
+  tokenSimilarity,
+  type Topic,
+  type TrendItem,
+} from './trends';
+import {
+  createWatchlistManager,
+  describeWatchlist,
+  matchesKeywords,
+  type WatchlistManager,
+  type WatchMatch,
+  type WatchSource,
+} from './watchlists';
+import {
+  categorySlug,
+  createSourceRegistry,
+  defineSourceTool,
+  type FormattedItem,
+  type SourceAdapter,
+  type SourceTool,
+} from './sources';
+import {
+  createRelayHealthTracker,
+  queryRelays,
+  type RelayQueryResult,
+  type RelayQueryStatus,
+} from './relays';
+import {
+  isEmptySearch,
+  matchesSearch,
+  searchNotes,
+  type SearchQuery,
+} from './search';
+import {
+  engagementScore,
+  fetchEngagement,
+  type Engagement,
+} from './engagement';
+import {
+  formatEventContent,
+  getReferencedPubkeys,
+  latestArticleVersions,
+  LONG_FORM_KIND,
+} from './events';
+import { fetchFollowingFeed } from './following';
 
 useWebSocketImplementation(WebSocket);
 
 const pool = new SimplePool();
+// Pool for queries, which checks signatures itself (see queryRelay) so invalid
+// events are counted instead of silently dropped
+const queryPool = new AbstractSimplePool({
+  verifyEvent: (event): event is VerifiedEvent => true,
+  websocketImplementation: WebSocket,
+});
 const DEFAULT_LIMIT = 10;
-const CONFIG_PATH = path.resolve(__dirname, '../config.json');
+const DEFAULT_RELAY_TIMEOUT = 5000;
+// Outbox relays queried per followed author by fetch-following-feed
+const RELAYS_PER_AUTHOR = 2;
+const CONFIG_PATH = resolveConfigPath(
+  process.argv.slice(2),
+  process.env,
+  path.resolve(__dirname, '../config.json')
+);
 const CONFIG_EXAMPLE_PATH = path.resolve(__dirname, '../config.example.json');
 
-// Config types
-interface RelayConfig {
-  trending: string[];
-  news: string[];
-  custom: string[];
-  [key: string]: string[];
-}
+// Default configuration
+const DEFAULT_MODERATION: NonNullable<Config['moderation']> = {
+  enabled: true,
+  mutedPubkeys: [],
+  mutedWords: [],
+  mutedHashtags: [],
+  mutedDomains: [],
+  contentWarnings: 'flag',
+  spam: {
+    duplicates: true,
+    maxMentions: 10,
+    maxLinks: 5,
+  },
+};
 
-interface HackerNewsConfig {
-  newest: string;
-  frontpage: string;
-  bestComments: string;
-  ask: string;
-  show: string;
-  [key: string]: string;
-}
+const DEFAULT_HTTP: NonNullable<Config['http']> = {
+  port: 3000,
+  host: '127.0.0.1',
+  corsOrigins: [],
+};
 
-interface RssFeedsConfig {
-  stackerNews: string;
-  hackerNews: HackerNewsConfig;
-  custom: Record<string, string>;
-  [key: string]: string | HackerNewsConfig | Record<string, string>;
-}
+const DEFAULT_CACHE: NonNullable<Config['cache']> = {
+  feedTtl: 10 * 60 * 1000,
+  nostrTtl: 30 * 1000,
+  refreshIntervals: {},
+};
 
-interface Config {
-  relays: RelayConfig;
-  rssFeeds: RssFeedsConfig;
-}
+const DEFAULT_SCHEDULER: NonNullable<Config['scheduler']> = {
+  outputDir: 'digests',
+  jobs: {},
+};
 
-// Default configuration
 const DEFAULT_CONFIG: Config = {
+  version: CONFIG_VERSION,
   relays: {
     trending: ['wss://algo.utxo.one'],
     news: ['wss://news.utxo.one'],
@@ -63,35 +214,47 @@ const DEFAULT_CONFIG: Config = {
     },
     custom: {},
   },
+  archive: {
+    enabled: false,
+    path: 'archive.sqlite',
+  },
+  relayTimeouts: {
+    default: DEFAULT_RELAY_TIMEOUT,
+    perRelay: {},
+  },
+  articles: {
+    cacheDir: '.cache/articles',
+    cacheTtl: 24 * 60 * 60 * 1000,
+    maxBytes: 2 * 1024 * 1024,
+    timeout: 15000,
+    maxLength: 20000,
+  },
+  moderation: DEFAULT_MODERATION,
+  cache: DEFAULT_CACHE,
+  http: DEFAULT_HTTP,
+  scheduler: DEFAULT_SCHEDULER,
 };
 
+const configStore = createConfigStore(
+  CONFIG_PATH,
+  CONFIG_EXAMPLE_PATH,
+  DEFAULT_CONFIG
+);
+
 /**
- * Load configuration from file, falling back to example or default config if necessary
+ * Load configuration from file, creating it from the example or defaults if
+ * missing. An invalid config stops the server rather than being replaced.
  */
 function loadConfig(): Config {
   try {
-    if (fs.existsSync(CONFIG_PATH)) {
-      return JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8')) as Config;
-    }
-
-    if (fs.existsSync(CONFIG_EXAMPLE_PATH)) {
-      console.error('Config file not found. Creating from example...');
-      const exampleConfig = JSON.parse(
-        fs.readFileSync(CONFIG_EXAMPLE_PATH, 'utf8')
-      ) as Config;
-      saveConfig(exampleConfig);
-      return exampleConfig;
-    }
-
-    console.error(
-      'No config or example config found. Creating with defaults...'
-    );
-    saveConfig(DEFAULT_CONFIG);
-    return DEFAULT_CONFIG;
+    return configStore.load();
   } catch (error) {
-    console.error('Error loading configuration:', error);
-    saveConfig(DEFAULT_CONFIG);
-    return DEFAULT_CONFIG;
+    if (error instanceof ConfigError) {
+      console.error(`${error.message}\nThe config file has not been modified.`);
+    } else {
+      console.error('Error loading configuration:', error);
+    }
+    process.exit(1);
   }
 }
 
@@ -100,7 +263,7 @@ function loadConfig(): Config {
  */
 function saveConfig(config: Config): void {
   try {
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2), 'utf8');
+    configStore.save(config);
   } catch (error) {
     console.error('Error saving configuration:', error);
   }
@@ -109,74 +272,492 @@ function saveConfig(config: Config): void {
 // Global configuration
 let CONFIG = loadConfig();
 
-const rssParser = new Parser();
+const rssParser = createFeedParser();
 
 /**
- * Fetch Nostr events from specified relays with given filter
+ * Open the archive if it is enabled in the configuration
  */
-async function fetchEvents(
-  relays: string[],
-  filter: Filter = { limit: DEFAULT_LIMIT }
-): Promise<NostrEvent[]> {
-  filter.limit = filter.limit || DEFAULT_LIMIT;
+function loadArchive(config: Config): Archive | undefined {
+  if (!config.archive?.enabled) return undefined;
 
+  const archivePath = path.resolve(
+    path.dirname(CONFIG_PATH),
+    config.archive.path
+  );
   try {
-    const events = await pool.querySync(relays, filter);
-    return events.sort((a, b) => b.created_at - a.created_at);
+    return openArchive(archivePath);
   } catch (error) {
-    console.error(
-      `Error fetching events from relays [${relays.join(', ')}]:`,
-      error
-    );
-    throw error;
+    console.error(`Error opening archive at ${archivePath}:`, error);
+    return undefined;
   }
 }
 
+const archive = loadArchive(CONFIG);
+
 /**
- * Fetch trending notes from configured relays
+ * Store fetched entries in the archive, if enabled, without failing the fetch
  */
-async function fetchTrendingNotes(
-  limit: number = DEFAULT_LIMIT
+function archiveEntries(sources: string[], entries: ArchiveEntry[]): void {
+  if (!archive) return;
+  try {
+    archive.store(sources, entries);
+  } catch (error) {
+    console.error('Error storing items in archive:', error);
+  }
+}
+
+/**
+ * Convert a Nostr event into an archive entry
+ */
+function nostrEventToArchiveEntry(event: NostrEvent): ArchiveEntry {
+  return {
+    id: event.id,
+    kind: 'nostr',
+    author: event.pubkey,
+    title: '',
+    content: event.content,
+    link: '',
+    createdAt: event.created_at,
+    raw: event,
+  };
+}
+
+/**
+ * Convert an RSS item into an archive entry, keyed by guid or link
+ */
+function rssItemToArchiveEntry(item: Parser.Item): ArchiveEntry | undefined {
+  const id = item.guid || item.link || item.title;
+  if (!id) return undefined;
+
+  const timestamp = Date.parse(item.isoDate || item.pubDate || '');
+  return {
+    id,
+    kind: 'rss',
+    author: extractAuthor(item),
+    title: item.title || '',
+    content: item.contentSnippet || item.content || '',
+    link: item.link || '',
+    createdAt: Math.floor(
+      (Number.isNaN(timestamp) ? Date.now() : timestamp) / 1000
+    ),
+    raw: item,
+  };
+}
+
+const relayHealth = createRelayHealthTracker();
+
+// Per-relay outcome of the query that produced each result array
+const relayStatuses = new WeakMap<NostrEvent[], RelayQueryStatus[]>();
+
+// Relays each returned event was received from, out of how many were queried
+const eventRelays = new WeakMap<
+  NostrEvent,
+  { relays: string[]; queried: number }
+>();
+
+/**
+ * Get the configured timeout for a relay, falling back to the default
+ */
+function getRelayTimeout(relay: string): number {
+  const timeouts = CONFIG.relayTimeouts;
+  return (
+    timeouts?.perRelay[relay] ?? timeouts?.default ?? DEFAULT_RELAY_TIMEOUT
+  );
+}
+
+// Recent query results keyed by relay set and filter, so repeated tool calls
+// within `cache.nostrTtl` don't query the relays again
+const nostrQueries = createQueryCache<RelayQueryResult>(
+  () => (CONFIG.cache ?? DEFAULT_CACHE).nostrTtl
+);
+
+/**
+ * Query Nostr events from specified relays with given filter. Each relay is
+ * queried with its own timeout; the call only fails if every relay fails.
+ * Results are cached briefly. Profile, engagement, mute list and contact list
+ * lookups use this directly so they stay out of the archive.
+ */
+async function queryEvents(
+  relays: string[],
+  filter: Filter = { limit: DEFAULT_LIMIT },
+  { archive = false }: { archive?: boolean } = {}
 ): Promise<NostrEvent[]> {
-  return fetchEvents(CONFIG.relays.trending, { limit });
+  filter.limit = filter.limit || DEFAULT_LIMIT;
+
+  const result = await nostrQueries.get(
+    nostrQueryKey(relays, filter),
+    async () => {
+      const result = await queryRelays(
+        queryPool,
+        relays,
+        filter,
+        getRelayTimeout
+      );
+      result.relays.forEach((status) => relayHealth.record(status));
+
+      const failed = result.relays.filter((status) => !status.ok);
+      if (failed.length > 0) {
+        console.error(
+          `Relays did not complete query: ${failed.map((s) => `${s.relay} (${s.error})`).join(', ')}`
+        );
+      }
+      if (
+        result.events.length === 0 &&
+        failed.length === result.relays.length
+      ) {
+        throw new Error(
+          `All relays failed: ${failed.map((s) => `${s.relay} (${s.error})`).join(', ')}`
+        );
+      }
+
+      return result;
+    }
+  );
+
+  // Archived outside the cached loader, since the same query may first be
+  // cached by a caller that doesn't archive. Storing is an upsert.
+  if (archive) {
+    archiveEntries(relays, result.events.map(nostrEventToArchiveEntry));
+  }
+
+  // Copy the events too, since engagement and content warnings are attached
+  // per call in WeakMaps keyed by event
+  const events = result.events
+    .map((event) => {
+      const copy = { ...event };
+      eventRelays.set(copy, {
+        relays: result.seenOn.get(event.id) ?? [],
+        queried: result.relays.length,
+      });
+      return copy;
+    })
+    .sort((a, b) => b.created_at - a.created_at);
+  relayStatuses.set(events, result.relays);
+  return events;
 }
 
 /**
- * Fetch news notes from configured relays
+ * Fetch notes for a tool result, archiving them if the archive is enabled
  */
-async function fetchNewsNotes(
-  limit: number = DEFAULT_LIMIT
+function fetchEvents(
+  relays: string[],
+  filter: Filter = { limit: DEFAULT_LIMIT }
 ): Promise<NostrEvent[]> {
-  return fetchEvents(CONFIG.relays.news, { limit });
+  return queryEvents(relays, filter, { archive: true });
 }
 
 /**
- * Fetch notes from a named relay group in the configuration
+ * Describe which relays answered a query, if any of them failed or timed out,
+ * and how many events were dropped for failing signature checks
  */
-async function fetchCustomRelayNotes(
-  relayName: string,
-  limit: number = DEFAULT_LIMIT
+function describeRelayStatus(events: NostrEvent[]): string | undefined {
+  const statuses = relayStatuses.get(events);
+  if (!statuses) return undefined;
+
+  const lines: string[] = [];
+  const answered = statuses.filter((status) => status.ok);
+  const failed = statuses.filter((status) => !status.ok);
+  if (failed.length > 0) {
+    lines.push(
+      `Relays: ${answered.length}/${statuses.length} answered` +
+        (answered.length > 0
+          ? ` (${answered.map((status) => status.relay).join(', ')})`
+          : ''),
+      `Failed: ${failed.map((status) => `${status.relay} (${status.error}, ${status.events} events received)`).join(', ')}`
+    );
+  }
+
+  const invalid = statuses.filter((status) => status.invalid > 0);
+  if (invalid.length > 0) {
+    const total = invalid.reduce((sum, status) => sum + status.invalid, 0);
+    lines.push(
+      `Dropped ${total} event${total === 1 ? '' : 's'} with an invalid signature: ` +
+        invalid
+          .map((status) => `${status.invalid} from ${status.relay}`)
+          .join(', ')
+    );
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+// Moderation results for fetched lists, keyed by the returned array
+const moderationReports = new WeakMap<unknown[], ModerationReport>();
+
+// NIP-36 content warnings for notes kept with moderation set to 'flag'
+const contentWarnings = new WeakMap<NostrEvent, string>();
+
+const MUTE_LIST_TTL = 10 * 60 * 1000;
+// Random ids have a few leading zero bits by chance, so lower difficulties
+// aren't shown
+const POW_DISPLAY_MIN = 8;
+const URL_IN_TEXT_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
+
+let moderationCache:
+  | { key: string; rules: ModerationRules; loadedAt: number }
+  | undefined;
+
+/**
+ * Load the NIP-51 mute list of `pubkey` from every configured relay
+ */
+async function loadMuteList(pubkey: string): Promise<MuteList | undefined> {
+  const relays = [...new Set(Object.values(CONFIG.relays).flat())];
+  const events = await queryEvents(relays, {
+    kinds: [MUTE_LIST_KIND],
+    authors: [pubkey],
+    limit: 1,
+  });
+  return events[0] && parseMuteList(events[0]);
+}
+
+/**
+ * Build moderation rules from the config and the configured mute list. Rules
+ * are cached until the moderation config changes or the mute list is stale.
+ * Returns undefined when moderation is disabled.
+ */
+async function loadModerationRules(): Promise<ModerationRules | undefined> {
+  const config = CONFIG.moderation ?? DEFAULT_MODERATION;
+  if (!config.enabled) return undefined;
+
+  const key = JSON.stringify(config);
+  if (
+    moderationCache?.key === key &&
+    Date.now() - moderationCache.loadedAt < MUTE_LIST_TTL
+  ) {
+    return moderationCache.rules;
+  }
+
+  const pubkeys = new Set<string>();
+  const muted = await resolveIdentifiers(config.mutedPubkeys).catch((error) => {
+    console.error('Error resolving muted pubkeys:', error);
+    return { pubkeys: [] };
+  });
+  muted.pubkeys.forEach((pubkey) => pubkeys.add(pubkey));
+
+  let muteList: MuteList | undefined;
+  if (config.muteListPubkey) {
+    try {
+      const [owner] = (await resolveIdentifiers([config.muteListPubkey]))
+        .pubkeys;
+      muteList = owner ? await loadMuteList(owner) : undefined;
+    } catch (error) {
+      console.error('Error loading mute list:', error);
+    }
+  }
+  muteList?.pubkeys.forEach((pubkey) => pubkeys.add(pubkey));
+
+  const rules: ModerationRules = {
+    pubkeys,
+    eventIds: new Set(muteList?.eventIds),
+    words: [...config.mutedWords, ...(muteList?.words ?? [])],
+    hashtags: new Set(
+      [...config.mutedHashtags, ...(muteList?.hashtags ?? [])].map((tag) =>
+        tag.replace(/^#/, '').toLowerCase()
+      )
+    ),
+    domains: config.mutedDomains.map((domain) =>
+      domain.toLowerCase().replace(/^www\./, '')
+    ),
+    contentWarnings: config.contentWarnings,
+    spam: config.spam,
+  };
+  moderationCache = { key, rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Attach the moderation report and stale feed notes of `source` to `result`,
+ * e.g. after slicing
+ */
+function withResultInfo<T>(result: T[], source: unknown[]): T[] {
+  const report = moderationReports.get(source);
+  if (report) moderationReports.set(result, report);
+  const stale = staleFeeds.get(source);
+  if (stale) staleFeeds.set(result, stale);
+  return result;
+}
+
+/**
+ * Remove muted and spammy notes and flag content warnings. The report is kept
+ * for the result note.
+ */
+async function moderateEvents(events: NostrEvent[]): Promise<NostrEvent[]> {
+  const rules = await loadModerationRules();
+  if (!rules) return events;
+
+  const { items, flagged, report } = moderate(events, eventSubject, rules);
+  for (const [event, warning] of flagged) contentWarnings.set(event, warning);
+  moderationReports.set(items, report);
+  return items;
+}
+
+/**
+ * Describe an RSS item for moderation. Only muted words, hashtags
+ * (categories) and domains apply to feeds.
+ */
+function rssItemSubject(item: Parser.Item): ModerationSubject {
+  const content = item.contentSnippet || item.content || '';
+  return {
+    text: `${item.title ?? ''}\n${content}`,
+    links: [
+      ...(item.link ? [item.link] : []),
+      ...(content.match(URL_IN_TEXT_PATTERN) ?? []),
+    ],
+    hashtags: processCategories(item.categories)?.split(', ') ?? [],
+    mentions: 0,
+  };
+}
+
+/**
+ * Remove RSS items with muted words, categories or domains
+ */
+async function moderateRssItems(items: Parser.Item[]): Promise<Parser.Item[]> {
+  const rules = await loadModerationRules();
+  if (!rules) return items;
+
+  const moderated = moderate(items, rssItemSubject, {
+    ...rules,
+    contentWarnings: 'show',
+    spam: undefined,
+  });
+  moderationReports.set(moderated.items, moderated.report);
+  return moderated.items;
+}
+
+/**
+ * Describe what moderation removed from a fetched list, if anything
+ */
+function describeModerationResult(items: unknown[]): string | undefined {
+  const report = moderationReports.get(items);
+  return report && describeModeration(report);
+}
+
+/**
+ * Join optional result notes into one
+ */
+function joinNotes(...notes: (string | undefined)[]): string | undefined {
+  const text = notes.filter(Boolean).join('\n');
+  return text || undefined;
+}
+
+const profiles = createProfileCache(queryEvents);
+
+interface NoteFetchOptions {
+  withEngagement?: boolean;
+  rankByEngagement?: boolean;
+  /** Minimum NIP-13 proof-of-work difficulty */
+  minPow?: number;
+  cursor?: string;
+}
+
+// Paging state for fetch results, keyed by the returned array
+const itemPages = new WeakMap<unknown[], PageInfo>();
+
+// Engagement stats for notes fetched with `withEngagement`
+const noteEngagement = new WeakMap<NostrEvent, Engagement>();
+
+/**
+ * Remove events below a proof-of-work difficulty, counting them in the
+ * moderation report
+ */
+function filterByPow(events: NostrEvent[], minPow: number): NostrEvent[] {
+  const kept = events.filter((event) => eventPow(event) >= minPow);
+  const dropped = events.length - kept.length;
+  const report = moderationReports.get(events);
+  if (dropped > 0) {
+    moderationReports.set(
+      kept,
+      mergeReports([
+        ...(report ? [report] : []),
+        { removed: { 'low proof of work': dropped }, flagged: 0 },
+      ])
+    );
+  } else if (report) {
+    moderationReports.set(kept, report);
+  }
+  return kept;
+}
+
+/**
+ * Fetch a page of notes and load kind 0 profiles for their authors from the
+ * same relays, optionally attaching engagement stats and re-ranking by them
+ */
+async function fetchNotes(
+  relays: string[],
+  filter: Filter,
+  options: NoteFetchOptions = {}
 ): Promise<NostrEvent[]> {
-  if (relayName === 'trending') {
-    return fetchTrendingNotes(limit);
-  } else if (relayName === 'news') {
-    return fetchNewsNotes(limit);
+  const limit = filter.limit ?? DEFAULT_LIMIT;
+  const cursor = options.cursor ? decodeNostrCursor(options.cursor) : undefined;
+  const fetched = await fetchEvents(
+    relays,
+    applyNostrCursor(filter, limit, cursor)
+  );
+  const page = pageEvents(fetched, limit, cursor);
+  const { nextCursor } = page;
+  const moderated = await moderateEvents(page.events);
+  const events = options.minPow
+    ? filterByPow(moderated, options.minPow)
+    : moderated;
+
+  const statuses = relayStatuses.get(fetched);
+  const report = moderationReports.get(events);
+  const finish = (result: NostrEvent[]) => {
+    if (statuses) relayStatuses.set(result, statuses);
+    if (report) moderationReports.set(result, report);
+    itemPages.set(result, { nextCursor });
+    return result;
+  };
+
+  try {
+    await profiles.load(relays, [
+      ...new Set(
+        events.flatMap((event) => [
+          event.pubkey,
+          ...getReferencedPubkeys(event),
+        ])
+      ),
+    ]);
+  } catch (error) {
+    console.error('Error loading author profiles:', error);
+  }
+
+  if (!options.withEngagement && !options.rankByEngagement) {
+    return finish(events);
   }
 
-  if (CONFIG.relays[relayName]) {
-    return fetchEvents(CONFIG.relays[relayName], { limit });
+  try {
+    const stats = await fetchEngagement(queryEvents, relays, events);
+    for (const event of events) {
+      const engagement = stats.get(event.id);
+      if (engagement) noteEngagement.set(event, engagement);
+    }
+  } catch (error) {
+    console.error('Error fetching engagement stats:', error);
   }
 
-  throw new Error(`Relay group '${relayName}' not found in configuration`);
+  if (!options.rankByEngagement) return finish(events);
+
+  // Ranking applies within the page; pages still follow creation time
+  const score = (event: NostrEvent) => {
+    const engagement = noteEngagement.get(event);
+    return engagement ? engagementScore(engagement) : 0;
+  };
+  return finish([...events].sort((a, b) => score(b) - score(a)));
 }
 
-interface FormattedItem {
-  date: string;
-  title?: string;
-  author: string;
-  content: string;
-  link?: string;
-  metadata?: Record<string, string>;
+/**
+ * Fetch notes from a named relay group in the configuration
+ */
+async function fetchRelayGroupNotes(
+  relayGroup: string,
+  limit: number = DEFAULT_LIMIT,
+  options: NoteFetchOptions = {}
+): Promise<NostrEvent[]> {
+  const relays = CONFIG.relays[relayGroup];
+  if (!relays) {
+    throw new Error(`Relay group '${relayGroup}' not found in configuration`);
+  }
+  return fetchNotes(relays, { limit }, options);
 }
 
 /**
@@ -191,28 +772,95 @@ function formatDate(timestamp: number | string | Date): string {
 }
 
 /**
- * Convert a Nostr event to our standard formatted item structure
+ * Display name of a pubkey from its cached profile
+ */
+function profileDisplayName(pubkey: string): string | undefined {
+  const profile = profiles.get(pubkey);
+  return profile?.displayName ?? profile?.name;
+}
+
+/**
+ * Convert a Nostr event to our standard formatted item structure, with
+ * kind-specific layout for articles, highlights and reposts
  */
 function nostrEventToFormattedItem(event: NostrEvent): FormattedItem {
+  const seenOn = eventRelays.get(event);
+  const formatted = formatEventContent(event, {
+    displayName: profileDisplayName,
+    relays: seenOn?.relays,
+  });
+  const metadata: Record<string, string> = {};
+  if (event.kind !== undefined) metadata.kind = String(event.kind);
+  Object.assign(metadata, formatted.metadata);
+  const hashtags = event.tags
+    .filter((tag) => tag[0] === 't' && tag[1])
+    .map((tag) => tag[1]);
+  if (hashtags.length > 0) metadata.hashtags = hashtags.join(', ');
+  const contentWarning = contentWarnings.get(event);
+  if (contentWarning) metadata.contentWarning = contentWarning;
+  if (seenOn?.relays.length) {
+    metadata.seenOn = `${seenOn.relays.length}/${seenOn.queried} relays (${seenOn.relays.join(', ')})`;
+  }
+  const pow = eventPow(event);
+  if (pow >= POW_DISPLAY_MIN) metadata.pow = String(pow);
+
+  const engagement = noteEngagement.get(event);
+  if (engagement) {
+    metadata.engagement = [
+      `${engagement.reactions} reactions`,
+      `${engagement.reposts} reposts`,
+      `${engagement.replies} replies`,
+      `${engagement.zaps} zaps (${engagement.zappedSats} sats)`,
+    ].join(', ');
+  }
+
   return {
-    date: formatDate(event.created_at),
-    author: event.pubkey ? `${event.pubkey.substring(0, 8)}...` : '',
-    content: event.content,
-    metadata:
-      event.kind !== undefined ? { kind: String(event.kind) } : undefined,
+    date: formatDate(formatted.date ?? event.created_at),
+    title: formatted.title,
+    author: formatNostrAuthor(event.pubkey, metadata),
+    content: formatted.content,
+    link: formatted.link,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
   };
 }
 
+/**
+ * Describe an author using their cached profile, adding NIP-05 and npub to
+ * the metadata. Falls back to the truncated pubkey.
+ */
+function formatNostrAuthor(
+  pubkey: string,
+  metadata: Record<string, string>
+): string {
+  if (!pubkey) return '';
+
+  try {
+    metadata.npub = npubEncode(pubkey);
+  } catch {
+    // Not a valid hex pubkey; leave it out
+  }
+
+  const profile = profiles.get(pubkey);
+  if (profile?.nip05) metadata.nip05 = profile.nip05;
+
+  return (
+    profile?.displayName ?? profile?.name ?? `${pubkey.substring(0, 8)}...`
+  );
+}
+
 /**
  * Convert an RSS item to our standard formatted item structure
  */
 function rssItemToFormattedItem(item: Parser.Item): FormattedItem {
   try {
+    const article = itemArticles.get(item);
     return {
       date: getItemDate(item),
       title: item.title || '',
       author: extractAuthor(item),
-      content: item.contentSnippet || item.content || '',
+      content: article
+        ? article.text.slice(0, FULL_TEXT_LENGTH)
+        : item.contentSnippet || item.content || '',
       link: item.link || '',
       metadata: getItemMetadata(item),
     };
@@ -243,8 +891,19 @@ function getItemDate(item: Parser.Item): string {
 function getItemMetadata(
   item: Parser.Item
 ): Record<string, string> | undefined {
+  const metadata: Record<string, string> = {};
   const categories = processCategories(item.categories);
-  return categories ? { categories } : undefined;
+  if (categories) metadata.categories = categories;
+
+  const article = itemArticles.get(item);
+  if (article) {
+    metadata.content =
+      article.type === 'comments' ? 'comment page' : 'linked article';
+    if (article.byline) metadata.byline = article.byline;
+    if (article.text.length > FULL_TEXT_LENGTH) metadata.truncated = 'yes';
+  }
+
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
 }
 
 /**
@@ -318,110 +977,1085 @@ function processCategories(categories: any): string | undefined {
   }
 }
 
+function formatNostrEvent(event: NostrEvent): string {
+  return formatItem(nostrEventToFormattedItem(event));
+}
+
 /**
- * Format an item for display with consistent formatting
+ * Format a thread as an indented conversation tree, marking the requested note
  */
-function formatItem(item: FormattedItem): string {
-  const parts = [`[${item.date}]${item.title ? ` ${item.title}` : ''}`];
-
-  if (item.author) {
-    parts.push(`Author: ${item.author}`);
-  }
+function formatThreadNode(
+  node: ThreadNode,
+  targetId: string,
+  depth: number = 0
+): string {
+  const indent = '  '.repeat(depth);
+  const marker = node.event.id === targetId ? '>> ' : '';
+  const text = formatNostrEvent(node.event)
+    .split('\n')
+    .map((line, index) => `${indent}${index === 0 ? marker : ''}${line}`)
+    .join('\n');
+
+  return [
+    text,
+    ...node.children.map((child) =>
+      formatThreadNode(child, targetId, depth + 1)
+    ),
+  ].join('\n\n');
+}
 
-  if (item.metadata) {
-    for (const [key, value] of Object.entries(item.metadata)) {
-      if (value) {
-        const formattedKey = key.charAt(0).toUpperCase() + key.slice(1);
-        parts.push(`${formattedKey}: ${value}`);
-      }
-    }
-  }
+/**
+ * Format a thread as nested markdown blockquotes, marking the requested note
+ */
+function formatThreadNodeMarkdown(
+  node: ThreadNode,
+  targetId: string,
+  depth: number = 0
+): string {
+  const quote = '> '.repeat(depth);
+  const marker = node.event.id === targetId ? '**Requested note**\n\n' : '';
+  const text =
+    `${marker}${formatItemMarkdown(nostrEventToFormattedItem(node.event))}`
+      .split('\n')
+      .map((line) => `${quote}${line}`.trimEnd())
+      .join('\n');
+
+  return [
+    text,
+    ...node.children.map((child) =>
+      formatThreadNodeMarkdown(child, targetId, depth + 1)
+    ),
+  ].join('\n\n');
+}
 
-  if (item.content) {
-    parts.push(item.content);
-  }
+/**
+ * Convert a thread node to JSON with its raw event and nested replies
+ */
+function threadNodeToJson(node: ThreadNode): object {
+  return {
+    ...toJsonItem({
+      item: nostrEventToFormattedItem(node.event),
+      raw: node.event,
+    }),
+    replies: node.children.map(threadNodeToJson),
+  };
+}
 
-  if (item.link) {
-    parts.push(item.link);
-  }
+/**
+ * Format one discussion comment and its replies, indented by depth
+ */
+function formatDiscussionComment(
+  comment: DiscussionComment,
+  pointsLabel: string,
+  markdown: boolean,
+  depth: number = 0
+): string {
+  const prefix = markdown ? '> '.repeat(depth + 1) : '  '.repeat(depth);
+  const header = [
+    comment.date ? `[${formatDate(comment.date)}]` : '',
+    markdown ? `**${comment.author ?? 'unknown'}**` : comment.author,
+    comment.points !== undefined ? `(${comment.points} ${pointsLabel})` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  const text = [header, comment.text]
+    .join('\n')
+    .split('\n')
+    .map((line) => `${prefix}${line}`.trimEnd())
+    .join('\n');
+  const more = comment.moreReplies
+    ? [
+        `${markdown ? '> '.repeat(depth + 2) : '  '.repeat(depth + 1)}[${comment.moreReplies} more ${comment.moreReplies === 1 ? 'reply' : 'replies'} not shown]`,
+      ]
+    : [];
+
+  return [
+    text,
+    ...comment.children.map((child) =>
+      formatDiscussionComment(child, pointsLabel, markdown, depth + 1)
+    ),
+    ...more,
+  ].join('\n\n');
+}
 
-  return parts.join('\n');
+/**
+ * Format an HN or Stacker News discussion as text or markdown
+ */
+function formatDiscussion(discussion: Discussion, markdown: boolean): string {
+  const title = discussion.title ?? `Item ${discussion.id}`;
+  const header = [
+    markdown ? `# ${title}` : title,
+    [
+      discussion.author && `By ${discussion.author}`,
+      discussion.points !== undefined &&
+        `${discussion.points} ${discussion.pointsLabel}`,
+      discussion.date && formatDate(discussion.date),
+    ]
+      .filter(Boolean)
+      .join(' · '),
+    discussion.url && `Link: ${discussion.url}`,
+    `Discussion: ${discussion.link}`,
+  ].filter(Boolean);
+
+  return [
+    header.join('\n'),
+    ...(discussion.text ? [discussion.text] : []),
+    `${discussion.commentCount} comments${discussion.truncated ? ' shown (limit reached; discussion truncated)' : ''}`,
+    ...discussion.comments.map((comment) =>
+      formatDiscussionComment(comment, discussion.pointsLabel, markdown)
+    ),
+  ].join('\n\n');
 }
 
-function formatNostrEvent(event: NostrEvent): string {
-  return formatItem(nostrEventToFormattedItem(event));
+// Notes for feeds served from cache after a failed refresh, keyed by the
+// returned array
+const staleFeeds = new WeakMap<unknown[], string[]>();
+
+/**
+ * Refresh interval configured for a feed, by feed name or URL
+ */
+function getFeedRefreshInterval(url: string): number | undefined {
+  const intervals = CONFIG.cache?.refreshIntervals ?? {};
+  if (intervals[url] !== undefined) return intervals[url];
+  for (const [name, interval] of Object.entries(intervals)) {
+    if (sourceRegistry.resolve(name, 'RSS feed')?.entry.urls.includes(url)) {
+      return interval;
+    }
+  }
+  return undefined;
 }
 
+const feedCache = createFeedCache({
+  load: (url, validators) => fetchFeedConditional(rssParser, url, validators),
+  refreshInterval: getFeedRefreshInterval,
+  defaultTtl: () => (CONFIG.cache ?? DEFAULT_CACHE).feedTtl,
+});
+
 /**
- * Fetch and parse an RSS feed from a URL
+ * Fetch and parse an RSS feed from a URL, through the feed cache
  */
 async function fetchRssFeed(
   feedUrl: string,
   limit: number = DEFAULT_LIMIT
 ): Promise<Parser.Item[]> {
   try {
-    const feed = await rssParser.parseURL(feedUrl);
-    return feed.items.slice(0, limit);
+    const feed = await feedCache.get(feedUrl);
+    if (feed.fresh) {
+      archiveEntries(
+        [feedUrl],
+        feed.items
+          .map(rssItemToArchiveEntry)
+          .filter((entry): entry is ArchiveEntry => entry !== undefined)
+      );
+    }
+    const moderated = await moderateRssItems(feed.items);
+    const items = withResultInfo(moderated.slice(0, limit), moderated);
+    if (feed.stale) {
+      staleFeeds.set(items, [
+        `${feedUrl} could not be refreshed (${feed.stale.error}); showing items fetched ${new Date(feed.fetchedAt).toISOString()}, stale since ${new Date(feed.stale.since).toISOString()}`,
+      ]);
+    }
+    return items;
   } catch (error) {
     console.error(`Error fetching RSS feed from ${feedUrl}:`, error);
     throw error;
   }
 }
 
+// Linked articles fetched for RSS items with `fullText`
+const itemArticles = new WeakMap<Parser.Item, Article>();
+
+// Length of article text shown per RSS item with `fullText`
+const FULL_TEXT_LENGTH = 4000;
+
 /**
- * Fetch items from Stacker News RSS feed
+ * Fetch a linked page using the configured size/time limits and disk cache
  */
-async function fetchStackerNews(
-  limit: number = DEFAULT_LIMIT
-): Promise<Parser.Item[]> {
-  return fetchRssFeed(CONFIG.rssFeeds.stackerNews as string, limit);
+function loadArticle(url: string): Promise<Article> {
+  const settings = CONFIG.articles ?? DEFAULT_CONFIG.articles!;
+  return fetchArticle(url, {
+    limits: settings,
+    cache: createArticleCache(
+      path.resolve(path.dirname(CONFIG_PATH), settings.cacheDir),
+      settings.cacheTtl
+    ),
+  });
 }
 
 /**
- * Fetch items from Hacker News RSS feed by type
+ * Fetch the linked article for each RSS item so it replaces the snippet.
+ * Items whose article can't be fetched keep their snippet.
  */
-async function fetchHackerNews(
-  type: keyof HackerNewsConfig = 'newest',
-  limit: number = DEFAULT_LIMIT
-): Promise<Parser.Item[]> {
-  const hackerNews = CONFIG.rssFeeds.hackerNews as HackerNewsConfig;
-  const feedUrl = hackerNews[type];
-  if (!feedUrl) {
-    throw new Error(
-      `Hacker News feed type '${type}' not found in configuration`
-    );
-  }
-  return fetchRssFeed(feedUrl, limit);
+async function attachArticles(items: Parser.Item[]): Promise<Parser.Item[]> {
+  await Promise.all(
+    items.map(async (item) => {
+      if (!item.link) return;
+      try {
+        itemArticles.set(item, await loadArticle(item.link));
+      } catch (error) {
+        console.error(`Error fetching article ${item.link}:`, error);
+      }
+    })
+  );
+  return items;
+}
+
+function formatRssItem(item: Parser.Item): string {
+  return formatItem(rssItemToFormattedItem(item));
 }
 
 /**
- * Fetch items from a named RSS feed in the configuration
+ * Check an item's title, content and categories against a search query
  */
-async function fetchCustomRssFeed(
-  feedName: string,
-  limit: number = DEFAULT_LIMIT
-): Promise<Parser.Item[]> {
-  if (feedName === 'stackerNews') {
-    return fetchStackerNews(limit);
-  }
-
-  if (feedName.startsWith('hackerNews.')) {
-    const type = feedName.split(
-      '.'
-    )[1] as keyof typeof CONFIG.rssFeeds.hackerNews;
-    return fetchHackerNews(type, limit);
-  }
+function itemMatchesSearch(item: FormattedItem, search: SearchQuery): boolean {
+  const categories = item.metadata?.categories?.split(', ') ?? [];
+  return matchesSearch(
+    `${item.title ?? ''} ${item.content}`,
+    categories,
+    search
+  );
+}
 
-  const customFeeds = CONFIG.rssFeeds.custom as Record<string, string>;
-  if (customFeeds[feedName]) {
-    return fetchRssFeed(customFeeds[feedName], limit);
-  }
+// Feed snapshots that RSS cursors page through
+const rssSnapshots = createSnapshotStore<Parser.Item>();
+// Merged note and feed matches that search-notes cursors page through. The
+// first page searches for this many pages of results from each source.
+const searchSnapshots = createSnapshotStore<OutputEntry>();
+const SEARCH_SNAPSHOT_PAGES = 5;
 
-  throw new Error(`RSS feed '${feedName}' not found in configuration`);
+/**
+ * Describe an RSS result: feeds served stale from cache and what moderation
+ * removed
+ */
+function describeRssResult(items: unknown[]): string | undefined {
+  return joinNotes(
+    ...(staleFeeds.get(items) ?? []),
+    describeModerationResult(items)
+  );
 }
 
-function formatRssItem(item: Parser.Item): string {
-  return formatItem(rssItemToFormattedItem(item));
+/**
+ * Fetch a page of RSS items, filtering the whole feed by a search query when
+ * one is given. The first page snapshots the feed for later cursors.
+ */
+async function fetchMatchingRssItems(
+  source: string,
+  fetchFunction: (limit: number) => Promise<Parser.Item[]>,
+  limit: number,
+  search?: SearchQuery,
+  cursor?: string,
+  fullText: boolean = false
+): Promise<Parser.Item[]> {
+  let feedItems: Parser.Item[] = [];
+  const { items, nextCursor } = await rssSnapshots.page(
+    JSON.stringify([source, search ?? null]),
+    async () => {
+      const items = await fetchFunction(Infinity);
+      feedItems = items;
+      if (!search || isEmptySearch(search)) return items;
+      return items.filter((item) =>
+        itemMatchesSearch(rssItemToFormattedItem(item), search)
+      );
+    },
+    limit,
+    cursor
+  );
+
+  itemPages.set(items, { nextCursor });
+  withResultInfo(items, feedItems);
+  return fullText ? attachArticles(items) : items;
+}
+
+const DIGEST_SIMILARITY_THRESHOLD = 0.8;
+const DIGEST_FORMATS: DigestFormat[] = ['markdown', 'html', 'rss'];
+
+/**
+ * Fetch a relay group or RSS feed and normalize it into a digest section
+ */
+async function fetchDigestSection(
+  category: string,
+  name: string,
+  limit: number
+): Promise<DigestSection> {
+  try {
+    const { adapter, items } = await fetchSourceItems(name, limit, category);
+    return {
+      source: name,
+      items: items.map((item) => adapter.normalize(item)),
+      note: adapter.describeResult?.(items),
+    };
+  } catch (error) {
+    return {
+      source: name,
+      items: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Remove items that share a link or have near-identical text with an item
+ * from an earlier section. Kept items note where else they appeared.
+ */
+function dedupeDigestSections(sections: DigestSection[]): number {
+  const seen: {
+    item: FormattedItem;
+    links: Set<string>;
+    tokens: Set<string>;
+  }[] = [];
+  let removed = 0;
+
+  for (const section of sections) {
+    section.items = section.items.filter((item) => {
+      const links = getItemLinks(item);
+      const tokens = getItemTokens(item);
+      const duplicateOf = seen.find(
+        (entry) =>
+          [...links].some((link) => entry.links.has(link)) ||
+          tokenSimilarity(tokens, entry.tokens) >= DIGEST_SIMILARITY_THRESHOLD
+      );
+
+      if (!duplicateOf) {
+        seen.push({ item, links, tokens });
+        return true;
+      }
+
+      const alsoIn = duplicateOf.item.metadata?.alsoIn;
+      if (!alsoIn?.split(', ').includes(section.source)) {
+        duplicateOf.item.metadata = {
+          ...duplicateOf.item.metadata,
+          alsoIn: alsoIn ? `${alsoIn}, ${section.source}` : section.source,
+        };
+      }
+      removed++;
+      return false;
+    });
+  }
+
+  return removed;
+}
+
+/**
+ * Build a deduplicated digest across relay groups and RSS feeds
+ */
+async function collectDigest(
+  title: string,
+  relayGroups: string[],
+  feeds: string[],
+  limit: number = DEFAULT_LIMIT
+): Promise<Digest> {
+  const sections = await Promise.all([
+    ...relayGroups.map((name) =>
+      fetchDigestSection('relay group', name, limit)
+    ),
+    ...feeds.map((name) => fetchDigestSection('RSS feed', name, limit)),
+  ]);
+
+  const duplicates = dedupeDigestSections(sections);
+  return { title, generatedAt: new Date(), sections, duplicates };
+}
+
+/**
+ * Build a digest for a scheduled job and write it to the output directory.
+ * Fails without writing anything if every source failed.
+ */
+async function runDigestJob(
+  name: string,
+  job: ScheduledJob
+): Promise<JobResult> {
+  const settings = CONFIG.scheduler ?? DEFAULT_SCHEDULER;
+  const digest = await collectDigest(
+    `${name} digest`,
+    job.relayGroups ?? [],
+    job.feeds ?? [],
+    job.limit ?? DEFAULT_LIMIT
+  );
+  if (digest.sections.every((section) => section.error)) {
+    throw new Error(
+      `All sources failed: ${digest.sections.map((s) => `${s.source} (${s.error})`).join(', ')}`
+    );
+  }
+
+  const outputs = writeDigest(digest, {
+    outputDir: path.resolve(path.dirname(CONFIG_PATH), settings.outputDir),
+    name,
+    formats: job.formats ?? DIGEST_FORMATS,
+    baseUrl: settings.baseUrl,
+  });
+  return { outputs, summary: summarizeDigest(digest)[0]! };
+}
+
+const TREND_SOURCE_LIMIT = 50;
+
+/**
+ * Fetch items from configured sources and group the ones published in the
+ * last `hours` into ranked topics. Failed sources and items without a date
+ * are reported in the note rather than failing the whole request.
+ */
+async function detectTrends(
+  sources: string[],
+  hours: number,
+  limit: number,
+  minMentions: number
+): Promise<{ topics: Topic[]; note?: string }> {
+  const now = Date.now();
+  const since = now - hours * 60 * 60 * 1000;
+  const failures: string[] = [];
+  const reports: ModerationReport[] = [];
+  let undated = 0;
+
+  const fetched = await Promise.all(
+    sources.map(async (source): Promise<TrendItem[]> => {
+      try {
+        const { adapter, items } = await fetchSourceItems(source, limit);
+        const report = moderationReports.get(items);
+        if (report) reports.push(report);
+        return items.map((item) => ({ source, item: adapter.normalize(item) }));
+      } catch (error) {
+        failures.push(
+          `${source} (${error instanceof Error ? error.message : error})`
+        );
+        return [];
+      }
+    })
+  );
+
+  const entries = fetched.flat().filter(({ item }) => {
+    const time = Date.parse(item.date);
+    if (Number.isNaN(time)) undated++;
+    return time >= since;
+  });
+
+  const topics = detectTopics(entries, {
+    now,
+    halfLife: (hours * 60 * 60 * 1000) / 2,
+    minMentions,
+  });
+
+  const note = [
+    `${topics.length} topics from ${entries.length} items in the last ${hours} hours`,
+    failures.length > 0 ? `Failed sources: ${failures.join(', ')}` : '',
+    undated > 0 ? `${undated} items without a date were skipped` : '',
+    describeModeration(mergeReports(reports)),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return { topics, note };
+}
+
+/**
+ * Render ranked topics with their member items
+ */
+function formatTopics(
+  topics: Topic[],
+  format: OutputFormat,
+  note?: string
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        topics: topics.map(({ items, ...topic }) => ({
+          ...topic,
+          items: items.map(({ source, item }) => ({ source, ...item })),
+        })),
+        ...(note ? { note } : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  const markdown = format === 'markdown';
+  const sections = topics.map((topic, index) => {
+    const heading = `${markdown ? '## ' : ''}${index + 1}. ${topic.label || 'Untitled topic'}`;
+    const summary =
+      `Score ${topic.score} · ${topic.mentions} mentions across ` +
+      `${topic.sources.length} sources (${topic.sources.join(', ')}) · ` +
+      `latest ${topic.latest}`;
+    const items = topic.items.map(({ source, item }) =>
+      markdown
+        ? `${formatItemMarkdown(item)}\n\n*Source: ${source}*`
+        : `Source: ${source}\n${formatItem(item)}`
+    );
+    return [heading, markdown ? `*${summary}*` : summary, ...items].join(
+      '\n\n'
+    );
+  });
+
+  const footer = note
+    ? markdown
+      ? note
+          .split('\n')
+          .map((line) => `> ${line}`)
+          .join('\n')
+      : note
+    : '';
+  if (sections.length === 0) {
+    return ['No trending topics found.', footer].filter(Boolean).join('\n\n');
+  }
+  return [...sections, footer]
+    .filter(Boolean)
+    .join(markdown ? '\n\n---\n\n' : '\n\n');
+}
+
+/**
+ * Resolve a Nostr author for archive queries. Anything that isn't an npub,
+ * hex key or NIP-05 name is left to the substring match on RSS authors.
+ */
+async function resolveArchiveAuthor(
+  author: string
+): Promise<string | undefined> {
+  try {
+    return (await resolveIdentifiers([author])).pubkeys[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a relay group or feed name to the relay/feed URLs stored in the archive
+ */
+function resolveArchiveSources(source: string): string[] {
+  return sourceRegistry.resolve(source)?.entry.urls ?? [source];
+}
+
+/**
+ * Parse a date string into a unix timestamp in seconds
+ */
+function parseDateParam(value: string, name: string): number {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid ${name} date '${value}'`);
+  }
+  return Math.floor(timestamp / 1000);
+}
+
+const notesSchema = { limit: z.number().optional().default(DEFAULT_LIMIT) };
+const fullTextSchema = {
+  fullText: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Fetch each linked page and use its main text as the content'),
+};
+const cursorSchema = {
+  cursor: z
+    .string()
+    .optional()
+    .describe('Cursor from a previous page, to continue where it ended'),
+};
+const engagementSchema = {
+  withEngagement: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Attach reaction, repost, reply and zap counts'),
+  rankByEngagement: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Re-rank notes by engagement (implies withEngagement)'),
+};
+const powSchema = {
+  minPow: z
+    .number()
+    .int()
+    .min(0)
+    .max(256)
+    .optional()
+    .describe(
+      'Minimum NIP-13 proof-of-work difficulty (leading zero bits of the event id)'
+    ),
+};
+const searchQuerySchema = z.object({
+  keywords: z
+    .string()
+    .optional()
+    .describe('Words that must all appear (case-insensitive)'),
+  hashtags: z
+    .array(z.string())
+    .optional()
+    .describe('Hashtags (or RSS categories) that must all be present'),
+  phrase: z.string().optional().describe('Exact phrase that must appear'),
+});
+
+/**
+ * Nostr relay groups from the configuration, including trending and news
+ */
+const relayGroupSource: SourceAdapter<NostrEvent> = {
+  id: 'nostr',
+  category: 'relay group',
+  describe: () => 'Nostr notes from configured relay groups',
+  list: () =>
+    Object.entries(CONFIG.relays).map(([name, relays]) => ({
+      name,
+      urls: Array.isArray(relays) ? relays : [],
+    })),
+  fetch: (entry, limit) => fetchRelayGroupNotes(entry, limit),
+  normalize: nostrEventToFormattedItem,
+  describeResult: (events) =>
+    joinNotes(describeRelayStatus(events), describeModerationResult(events)),
+  tools: [
+    defineSourceTool({
+      name: 'fetch-trending-notes',
+      description: 'Fetch trending notes from nostr',
+      schema: { ...notesSchema, ...engagementSchema, ...powSchema },
+      fetch: ({ limit, withEngagement, rankByEngagement, minPow, cursor }) =>
+        fetchRelayGroupNotes('trending', limit, {
+          withEngagement,
+          rankByEngagement,
+          minPow,
+          cursor,
+        }),
+      notFoundMessage: 'No trending notes found.',
+      errorPrefix: 'Error fetching notes',
+    }),
+    defineSourceTool({
+      name: 'fetch-news-notes',
+      description: 'Fetch latest news from nostr',
+      schema: { ...notesSchema, ...engagementSchema, ...powSchema },
+      fetch: ({ limit, withEngagement, rankByEngagement, minPow, cursor }) =>
+        fetchRelayGroupNotes('news', limit, {
+          withEngagement,
+          rankByEngagement,
+          minPow,
+          cursor,
+        }),
+      notFoundMessage: 'No news notes found.',
+      errorPrefix: 'Error fetching notes',
+    }),
+    defineSourceTool({
+      name: 'fetch-relay-group',
+      description: 'Fetch notes from a configured relay group',
+      schema: {
+        relayGroup: z.string(),
+        limit: z.number().optional().default(DEFAULT_LIMIT),
+        ...engagementSchema,
+        ...powSchema,
+      },
+      fetch: ({
+        relayGroup,
+        limit,
+        withEngagement,
+        rankByEngagement,
+        minPow,
+        cursor,
+      }) =>
+        fetchRelayGroupNotes(relayGroup, limit, {
+          withEngagement,
+          rankByEngagement,
+          minPow,
+          cursor,
+        }),
+      notFoundMessage: 'No events found for the specified relay group.',
+      errorPrefix: 'Error fetching events from relay group',
+    }),
+  ],
+  entries: {
+    addSchema: {
+      name: z.string(),
+      relays: z.array(z.string()),
+    },
+    async add({ name, relays }: { name: string; relays: string[] }) {
+      if (name === 'custom') {
+        // Add to custom array
+        CONFIG.relays.custom = [...CONFIG.relays.custom, ...relays];
+      } else {
+        // Create or update named group
+        CONFIG.relays[name] = relays;
+      }
+
+      saveConfig(CONFIG);
+      return `Relay group '${name}' has been added/updated with ${relays.length} relays.`;
+    },
+    remove(name) {
+      if (name === 'trending' || name === 'news') {
+        return `Cannot remove built-in relay group '${name}'. You can update it instead.`;
+      }
+
+      if (name === 'custom') {
+        CONFIG.relays.custom = [];
+      } else {
+        delete CONFIG.relays[name];
+      }
+
+      saveConfig(CONFIG);
+      return `Relay group '${name}' has been removed.`;
+    },
+  },
+};
+
+/**
+ * Built-in Stacker News RSS feed
+ */
+const stackerNewsSource: SourceAdapter<Parser.Item> = {
+  id: 'stackerNews',
+  category: 'RSS feed',
+  describe: () => 'Stacker News RSS feed',
+  list: () => [
+    { name: 'stackerNews', urls: [CONFIG.rssFeeds.stackerNews as string] },
+  ],
+  fetch: (_entry, limit) =>
+    fetchRssFeed(CONFIG.rssFeeds.stackerNews as string, limit),
+  normalize: rssItemToFormattedItem,
+  describeResult: describeRssResult,
+  tools: [
+    defineSourceTool({
+      name: 'fetch-stacker-news',
+      description:
+        'Fetch latest news and discussions from Stacker News RSS feed',
+      schema: {
+        ...notesSchema,
+        search: searchQuerySchema.optional(),
+        ...fullTextSchema,
+      },
+      fetch: ({ limit, search, cursor, fullText }) =>
+        fetchMatchingRssItems(
+          'stackerNews',
+          (feedLimit) => stackerNewsSource.fetch('stackerNews', feedLimit),
+          limit,
+          search,
+          cursor,
+          fullText
+        ),
+      notFoundMessage: 'No Stacker News items found.',
+      errorPrefix: 'Error fetching RSS feed',
+    }),
+  ],
+};
+
+/**
+ * Built-in Hacker News RSS feeds, one entry per feed type
+ */
+const hackerNewsSource: SourceAdapter<Parser.Item> = {
+  id: 'hackerNews',
+  category: 'RSS feed',
+  describe: () => 'Hacker News RSS feeds (newest, frontpage, ask, show, ...)',
+  list: () =>
+    Object.entries(CONFIG.rssFeeds.hackerNews).map(([type, url]) => ({
+      name: `hackerNews.${type}`,
+      urls: [url],
+    })),
+  fetch: (entry, limit) => {
+    const type = entry.replace(/^hackerNews\./, '');
+    const feedUrl = CONFIG.rssFeeds.hackerNews[type];
+    if (!feedUrl) {
+      throw new Error(
+        `Hacker News feed type '${type}' not found in configuration`
+      );
+    }
+    return fetchRssFeed(feedUrl, limit);
+  },
+  normalize: rssItemToFormattedItem,
+  describeResult: describeRssResult,
+  tools: [
+    defineSourceTool({
+      name: 'fetch-hacker-news',
+      description:
+        'Fetch latest news and discussions from Hacker News RSS feed',
+      schema: {
+        limit: z.number().optional().default(DEFAULT_LIMIT),
+        type: z
+          .enum(['newest', 'frontpage', 'bestComments', 'ask', 'show'])
+          .optional()
+          .default('newest'),
+        search: searchQuerySchema.optional(),
+        ...fullTextSchema,
+      },
+      fetch: ({ limit, type, search, cursor, fullText }) =>
+        fetchMatchingRssItems(
+          `hackerNews.${type}`,
+          (feedLimit) =>
+            hackerNewsSource.fetch(`hackerNews.${type}`, feedLimit),
+          limit,
+          search,
+          cursor,
+          fullText
+        ),
+      notFoundMessage: 'No Hacker News items found.',
+      errorPrefix: 'Error fetching Hacker News RSS feed',
+    }),
+  ],
+};
+
+/**
+ * User-added RSS feeds from `CONFIG.rssFeeds.custom`
+ */
+const customRssSource: SourceAdapter<Parser.Item> = {
+  id: 'rss',
+  category: 'RSS feed',
+  describe: () => 'Custom RSS feeds added to the configuration',
+  list: () =>
+    Object.entries(CONFIG.rssFeeds.custom).map(([name, url]) => ({
+      name,
+      urls: [url],
+    })),
+  fetch: (entry, limit) => {
+    const feedUrl = CONFIG.rssFeeds.custom[entry];
+    if (!feedUrl) {
+      throw new Error(`RSS feed '${entry}' not found in configuration`);
+    }
+    return fetchRssFeed(feedUrl, limit);
+  },
+  normalize: rssItemToFormattedItem,
+  describeResult: describeRssResult,
+  tools: [
+    defineSourceTool({
+      name: 'fetch-custom-rss',
+      description: 'Fetch news from a custom RSS feed',
+      schema: {
+        feedName: z.string(),
+        limit: z.number().optional().default(DEFAULT_LIMIT),
+        search: searchQuerySchema.optional(),
+        ...fullTextSchema,
+      },
+      // Any RSS feed name resolves here, including the built-in feeds
+      fetch: ({ feedName, limit, search, cursor, fullText }) =>
+        fetchMatchingRssItems(
+          feedName,
+          async (feedLimit) =>
+            (await fetchSourceItems(feedName, feedLimit, 'RSS feed'))
+              .items as Parser.Item[],
+          limit,
+          search,
+          cursor,
+          fullText
+        ),
+      notFoundMessage: 'No items found for the specified RSS feed.',
+      errorPrefix: 'Error fetching custom RSS feed',
+    }),
+  ],
+  entries: {
+    addSchema: {
+      name: z.string(),
+      url: z.string(),
+    },
+    async add({ name, url }: { name: string; url: string }) {
+      // Test that the feed is valid
+      await fetchFeed(rssParser, url);
+
+      // Add to custom feeds
+      const customFeeds = CONFIG.rssFeeds.custom;
+      customFeeds[name] = url;
+
+      saveConfig(CONFIG);
+      return `RSS feed '${name}' has been added with URL: ${url}`;
+    },
+    remove(name) {
+      const customFeeds = CONFIG.rssFeeds.custom;
+      delete customFeeds[name];
+
+      // Drop the feed from any group it belonged to
+      const groups = CONFIG.rssFeeds.groups ?? {};
+      for (const [group, feeds] of Object.entries(groups)) {
+        groups[group] = feeds.filter((feed) => feed !== name);
+      }
+
+      saveConfig(CONFIG);
+      return `RSS feed '${name}' has been removed.`;
+    },
+  },
+};
+
+/**
+ * Named groups of RSS feeds (e.g. OPML folders), fetched as one merged feed
+ */
+const rssGroupSource: SourceAdapter<Parser.Item> = {
+  id: 'rssGroups',
+  category: 'RSS feed',
+  describe: () => 'Groups of RSS feeds, such as folders imported from OPML',
+  list: () =>
+    Object.entries(CONFIG.rssFeeds.groups ?? {}).map(([name, feeds]) => ({
+      name,
+      urls: feeds.flatMap(
+        (feed) => sourceRegistry.resolve(feed, 'RSS feed')?.entry.urls ?? []
+      ),
+    })),
+  fetch: async (entry, limit) => {
+    const feeds = CONFIG.rssFeeds.groups?.[entry];
+    if (!feeds) {
+      throw new Error(`RSS feed group '${entry}' not found in configuration`);
+    }
+
+    const results = await Promise.allSettled(
+      feeds.map((feed) => fetchSourceItems(feed, limit, 'RSS feed'))
+    );
+    const loaded = results.flatMap((result) =>
+      result.status === 'fulfilled' ? [result.value.items as Parser.Item[]] : []
+    );
+    const items = loaded.flat();
+    if (items.length === 0 && results.some((r) => r.status === 'rejected')) {
+      throw new Error(`Every feed in group '${entry}' failed to load`);
+    }
+
+    const time = (item: Parser.Item) =>
+      Date.parse(item.isoDate || item.pubDate || '') || 0;
+    const sorted = items.sort((a, b) => time(b) - time(a)).slice(0, limit);
+    moderationReports.set(
+      sorted,
+      mergeReports(
+        loaded.flatMap((feedItems) => moderationReports.get(feedItems) ?? [])
+      )
+    );
+    staleFeeds.set(
+      sorted,
+      loaded.flatMap((feedItems) => staleFeeds.get(feedItems) ?? [])
+    );
+    return sorted;
+  },
+  normalize: rssItemToFormattedItem,
+  describeResult: describeRssResult,
+  entries: {
+    remove(name) {
+      delete CONFIG.rssFeeds.groups?.[name];
+
+      saveConfig(CONFIG);
+      return `RSS feed group '${name}' has been removed. Its feeds are still configured.`;
+    },
+  },
+};
+
+// Source adapters, in resolution order. Register additional adapters here to
+// expose new sources; their tools are generated by registerSourceTools.
+const sourceRegistry = createSourceRegistry();
+sourceRegistry.register(relayGroupSource);
+sourceRegistry.register(stackerNewsSource);
+sourceRegistry.register(hackerNewsSource);
+sourceRegistry.register(customRssSource);
+sourceRegistry.register(rssGroupSource);
+
+/**
+ * Resolve a source entry by name (optionally within one category) and fetch it.
+ * Adapters in the 'RSS feed' category return rss-parser items.
+ */
+async function fetchSourceItems(
+  name: string,
+  limit: number = DEFAULT_LIMIT,
+  category?: string
+): Promise<{ adapter: SourceAdapter; items: unknown[] }> {
+  const resolved = sourceRegistry.resolve(name, category);
+  if (!resolved) {
+    throw new Error(
+      `${capitalize(category ?? 'source')} '${name}' not found in configuration`
+    );
+  }
+  return {
+    adapter: resolved.adapter,
+    items: await resolved.adapter.fetch(name, limit),
+  };
+}
+
+/**
+ * Import feeds from an OPML document. New feeds are validated concurrently;
+ * folders become feed groups and feeds already configured are skipped.
+ */
+async function importOpml(xml: string): Promise<string> {
+  const configuredUrls = new Set(
+    sourceRegistry
+      .adapters()
+      .filter((adapter) => adapter.category === 'RSS feed')
+      .flatMap((adapter) => adapter.list())
+      .flatMap((entry) => entry.urls)
+  );
+
+  const feeds = parseOpml(xml);
+  const pending = feeds.filter(
+    (feed, index) =>
+      !configuredUrls.has(feed.url) &&
+      feeds.findIndex((other) => other.url === feed.url) === index
+  );
+  const results = await Promise.allSettled(
+    pending.map((feed) => fetchFeed(rssParser, feed.url))
+  );
+
+  const customFeeds = CONFIG.rssFeeds.custom;
+  const groups = (CONFIG.rssFeeds.groups ??= {});
+  const added: string[] = [];
+  const failed: string[] = [];
+
+  pending.forEach((feed, index) => {
+    const result = results[index];
+    if (result?.status === 'rejected') {
+      const reason =
+        result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason);
+      failed.push(`${feed.title} (${feed.url}): ${reason}`);
+      return;
+    }
+
+    // Feed names must be unique across all RSS sources
+    let name = feed.title.trim() || feed.url;
+    for (let n = 2; sourceRegistry.resolve(name, 'RSS feed'); n++) {
+      name = `${feed.title.trim() || feed.url} (${n})`;
+    }
+    customFeeds[name] = feed.url;
+    added.push(name);
+
+    if (feed.folder) {
+      groups[feed.folder] = [...(groups[feed.folder] ?? []), name];
+    }
+  });
+
+  if (added.length > 0) saveConfig(CONFIG);
+
+  return [
+    `Imported ${added.length} of ${feeds.length} feeds` +
+      ` (${feeds.length - pending.length} already configured, ${failed.length} failed).`,
+    ...(added.length > 0 ? [`Added: ${added.join(', ')}`] : []),
+    ...(failed.length > 0 ? ['Failed:', ...failed.map((f) => `- ${f}`)] : []),
+  ].join('\n');
+}
+
+/**
+ * Export configured RSS feeds as OPML, with feed groups as folders
+ */
+function exportOpml(): string {
+  const customFeeds = CONFIG.rssFeeds.custom;
+  const groups = CONFIG.rssFeeds.groups ?? {};
+  const grouped = new Set(Object.values(groups).flat());
+  const feed = (name: string) => ({
+    title: name,
+    url: sourceRegistry.resolve(name, 'RSS feed')?.entry.urls[0] ?? '',
+  });
+
+  const folders: OpmlFolder[] = [
+    {
+      feeds: [
+        ...stackerNewsSource.list().map((entry) => feed(entry.name)),
+        ...Object.keys(customFeeds)
+          .filter((name) => !grouped.has(name))
+          .map(feed),
+      ],
+    },
+    {
+      title: 'hackerNews',
+      feeds: hackerNewsSource.list().map((entry) => feed(entry.name)),
+    },
+    ...Object.entries(groups).map(([title, names]) => ({
+      title,
+      feeds: names.map(feed).filter((entry) => entry.url),
+    })),
+  ];
+
+  return buildOpml('Nostr Daily News feeds', folders);
+}
+
+/**
+ * Uppercase the first letter of a string
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Prefix a noun with 'a' or 'an'. Acronyms such as RSS are read letter by letter.
+ */
+function withArticle(noun: string): string {
+  return /^(?:[aeiouAEIOU]|[FHLMNRSX][A-Z])/.test(noun)
+    ? `an ${noun}`
+    : `a ${noun}`;
 }
 
 function handleToolError(error: unknown, errorPrefix: string) {
@@ -435,452 +2069,1885 @@ function handleToolError(error: unknown, errorPrefix: string) {
   };
 }
 
+interface RecentResult {
+  id: number;
+  tool: string;
+  fetchedAt: string;
+  entries: OutputEntry[];
+  note?: string;
+}
+
+const RECENT_RESULT_LIMIT = 20;
+const recentResults: RecentResult[] = [];
+let nextResultId = 1;
+
+/**
+ * Keep a fetch result for the `results://recent` resources, newest first
+ */
+function recordResult(
+  tool: string,
+  entries: OutputEntry[],
+  note?: string
+): void {
+  recentResults.unshift({
+    id: nextResultId++,
+    tool,
+    fetchedAt: new Date().toISOString(),
+    entries,
+    note,
+  });
+  recentResults.splice(RECENT_RESULT_LIMIT);
+}
+
 /**
- * Generic tool handler factory that handles fetching data and formatting the response
+ * Generic tool handler factory for adapter fetch tools: fetches items,
+ * normalizes them with the adapter and formats the response
  * @typeparam T Type of items being fetched and formatted
  */
-function createToolHandler<T>(
-  fetchFunction: (limit: number, ...args: any[]) => Promise<T[]>,
-  formatFunction: (item: T) => string,
-  notFoundMessage: string,
-  errorPrefix: string
+function createSourceToolHandler<T>(
+  adapter: SourceAdapter<T>,
+  tool: SourceTool<T>
 ) {
   return async (params: any) => {
     try {
-      const { limit, ...otherParams } = params;
-      const items = await fetchFunction(limit, ...Object.values(otherParams));
-
-      if (items.length === 0) {
-        return {
-          content: [{ type: 'text' as const, text: notFoundMessage }],
-        };
-      }
+      const items = await tool.fetch(params);
+      const note = adapter.describeResult?.(items);
+      const entries = items.map((item) => ({
+        item: adapter.normalize(item),
+        raw: item,
+      }));
+      recordResult(tool.name, entries, note);
 
       return {
         content: [
           {
             type: 'text' as const,
-            text: items.map(formatFunction).join('\n\n'),
+            text: renderItems(
+              entries,
+              params.output ?? 'text',
+              tool.notFoundMessage,
+              note,
+              itemPages.get(items)
+            ),
           },
         ],
       };
     } catch (error) {
-      return handleToolError(error, errorPrefix);
+      return handleToolError(error, tool.errorPrefix);
     }
   };
 }
 
 /**
- * Creates a handler for Nostr event tools
+ * Register each adapter's fetch tools, plus list/add/remove configuration
+ * tools for every source category
  */
-function createNotesToolHandler(
-  fetchFunction: (limit: number) => Promise<NostrEvent[]>,
-  notFoundMessage: string
-) {
-  return createToolHandler<NostrEvent>(
-    fetchFunction,
-    formatNostrEvent,
-    notFoundMessage,
-    'Error fetching notes'
+function registerSourceTools(server: McpServer) {
+  for (const adapter of sourceRegistry.adapters()) {
+    for (const tool of adapter.tools ?? []) {
+      server.tool(
+        tool.name,
+        tool.description,
+        { ...tool.schema, ...cursorSchema, ...outputSchema },
+        createSourceToolHandler(adapter, tool)
+      );
+    }
+  }
+
+  for (const category of sourceRegistry.categories()) {
+    const slug = categorySlug(category);
+    const adapters = sourceRegistry
+      .adapters()
+      .filter((adapter) => adapter.category === category);
+
+    server.tool(
+      `list-${slug}s`,
+      `List all available ${category}s`,
+      {},
+      async () => {
+        try {
+          const entries = adapters.flatMap((adapter) => adapter.list());
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: entries
+                  .map((entry) => `${entry.name}: ${entry.urls.join(', ')}`)
+                  .join('\n\n'),
+              },
+            ],
+          };
+        } catch (error) {
+          return handleToolError(error, `Error listing ${category}s`);
+        }
+      }
+    );
+
+    const entries = adapters.find((adapter) => adapter.entries?.add)?.entries;
+    const add = entries?.add;
+    if (add) {
+      server.tool(
+        `add-${slug}`,
+        `Add a new ${category} to the configuration`,
+        entries.addSchema ?? {},
+        async (params) => {
+          try {
+            return {
+              content: [{ type: 'text' as const, text: await add(params) }],
+            };
+          } catch (error) {
+            return handleToolError(error, `Error adding ${category}`);
+          }
+        }
+      );
+    }
+
+    server.tool(
+      `remove-${slug}`,
+      `Remove ${withArticle(category)} from the configuration`,
+      {
+        name: z.string(),
+      },
+      async ({ name }) => {
+        try {
+          const resolved = sourceRegistry.resolve(name, category);
+          const remove = resolved?.adapter.entries?.remove;
+
+          let text: string;
+          if (!resolved) {
+            text = `${capitalize(category)} '${name}' not found.`;
+          } else if (!remove) {
+            text = `Cannot remove built-in ${category} '${name}'. You can update it instead.`;
+          } else {
+            text = remove(name);
+          }
+
+          return {
+            content: [{ type: 'text' as const, text }],
+          };
+        } catch (error) {
+          return handleToolError(error, `Error removing ${category}`);
+        }
+      }
+    );
+  }
+}
+
+// Resource URI prefixes per category; other categories use source://<slug>
+const RESOURCE_PREFIXES: Record<string, string> = {
+  'relay group': 'nostr://group',
+  'RSS feed': 'rss://feed',
+};
+
+/**
+ * Build a JSON resource result
+ */
+function jsonResource(uri: URL, value: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Expose every source entry as a resource (e.g. `nostr://group/trending`,
+ * `rss://feed/stackerNews`) and recent fetch results under `results://recent`
+ */
+function registerSourceResources(server: McpServer) {
+  for (const category of sourceRegistry.categories()) {
+    const prefix =
+      RESOURCE_PREFIXES[category] ?? `source://${categorySlug(category)}`;
+    const adapters = sourceRegistry
+      .adapters()
+      .filter((adapter) => adapter.category === category);
+
+    server.resource(
+      `${categorySlug(category)}s`,
+      new ResourceTemplate(`${prefix}/{name}`, {
+        list: () => ({
+          resources: adapters
+            .flatMap((adapter) => adapter.list())
+            .map((entry) => ({
+              uri: `${prefix}/${encodeURIComponent(entry.name)}`,
+              name: entry.name,
+              description: entry.urls.join(', '),
+              mimeType: 'application/json',
+            })),
+        }),
+      }),
+      {
+        description: `Latest items from ${withArticle(category)}`,
+        mimeType: 'application/json',
+      },
+      async (uri, { name }) => {
+        const entryName = decodeURIComponent(String(name));
+        const { adapter, items } = await fetchSourceItems(
+          entryName,
+          DEFAULT_LIMIT,
+          category
+        );
+        const note = adapter.describeResult?.(items);
+
+        return jsonResource(uri, {
+          source: entryName,
+          items: items.map((item) =>
+            toJsonItem({ item: adapter.normalize(item), raw: item })
+          ),
+          ...(note ? { note } : {}),
+        });
+      }
+    );
+  }
+
+  server.resource(
+    'recent-results',
+    'results://recent',
+    {
+      description: 'Summary of the most recent fetch tool results',
+      mimeType: 'application/json',
+    },
+    async (uri) =>
+      jsonResource(
+        uri,
+        recentResults.map(({ id, tool, fetchedAt, entries }) => ({
+          uri: `results://recent/${id}`,
+          tool,
+          fetchedAt,
+          items: entries.length,
+        }))
+      )
+  );
+
+  server.resource(
+    'recent-result',
+    new ResourceTemplate('results://recent/{id}', {
+      list: () => ({
+        resources: recentResults.map(({ id, tool, fetchedAt }) => ({
+          uri: `results://recent/${id}`,
+          name: `${tool} (${fetchedAt})`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    { description: 'A recent fetch tool result', mimeType: 'application/json' },
+    async (uri, { id }) => {
+      const result = recentResults.find((result) => result.id === Number(id));
+      if (!result) {
+        throw new Error(`Result ${id} is no longer available`);
+      }
+
+      return jsonResource(uri, {
+        tool: result.tool,
+        fetchedAt: result.fetchedAt,
+        items: result.entries.map(toJsonItem),
+        ...(result.note ? { note: result.note } : {}),
+      });
+    }
   );
 }
 
+const WATCHLIST_STATE_PATH = '.cache/watchlists.json';
+const SCHEDULER_STATE_PATH = '.cache/scheduler.json';
+const WATCHLIST_POLL_INTERVAL = 5 * 60 * 1000;
+const WATCHLIST_POLL_LIMIT = 50;
+const LOG_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
 /**
- * Creates a handler for RSS feed tools
+ * Build the relays and filter for a Nostr or author watchlist, resolving
+ * npub and NIP-05 authors to pubkeys
  */
-function createRssToolHandler(
-  fetchFunction: (limit: number) => Promise<Parser.Item[]>,
-  notFoundMessage: string
+async function resolveWatchFilter(
+  watchlist: Exclude<Watchlist, { type: 'rss' }>
+): Promise<{ relays: string[]; filter: Filter }> {
+  const relays = CONFIG.relays[watchlist.relayGroup];
+  if (!relays) {
+    throw new Error(`Relay group '${watchlist.relayGroup}' not found`);
+  }
+
+  const authors =
+    watchlist.type === 'author' ? [watchlist.author] : watchlist.authors;
+  const pubkeys = authors?.length
+    ? (await resolveIdentifiers(authors)).pubkeys
+    : undefined;
+  if (authors?.length && !pubkeys?.length) {
+    throw new Error(`Could not resolve authors ${authors.join(', ')}`);
+  }
+
+  const filter: Filter = {
+    kinds: watchlist.type === 'nostr' ? (watchlist.kinds ?? [1]) : [1],
+  };
+  if (pubkeys) filter.authors = pubkeys;
+  if (watchlist.type === 'nostr' && watchlist.hashtags?.length) {
+    filter['#t'] = watchlist.hashtags.map((tag) => tag.toLowerCase());
+  }
+  return { relays, filter };
+}
+
+/**
+ * Create the source a watchlist polls or subscribes to
+ */
+function createWatchSource(name: string, watchlist: Watchlist): WatchSource {
+  if (watchlist.type === 'rss') {
+    return {
+      async poll() {
+        const { adapter, items } = await fetchSourceItems(
+          watchlist.feed,
+          WATCHLIST_POLL_LIMIT,
+          'RSS feed'
+        );
+        return (items as Parser.Item[]).flatMap((raw) => {
+          const item = adapter.normalize(raw);
+          const id = raw.guid || raw.link || raw.title;
+          if (!id || !matchesKeywords(item, watchlist.keywords)) return [];
+          const time = Date.parse(item.date);
+          return [
+            { id, time: Number.isNaN(time) ? 0 : time, entry: { item, raw } },
+          ];
+        });
+      },
+      pollInterval: watchlist.pollInterval ?? WATCHLIST_POLL_INTERVAL,
+    };
+  }
+
+  const keywords = watchlist.type === 'nostr' ? watchlist.keywords : undefined;
+  const toMatch = (event: NostrEvent): WatchMatch | undefined => {
+    const item = nostrEventToFormattedItem(event);
+    if (!matchesKeywords(item, keywords)) return undefined;
+    return {
+      id: event.id,
+      time: event.created_at * 1000,
+      entry: { item, raw: event },
+    };
+  };
+
+  return {
+    async poll(since) {
+      const { relays, filter } = await resolveWatchFilter(watchlist);
+      const events = await fetchEvents(relays, {
+        ...filter,
+        ...(since ? { since: Math.floor(since / 1000) } : {}),
+        limit: WATCHLIST_POLL_LIMIT,
+      });
+      return (await moderateEvents(events)).flatMap(
+        (event) => toMatch(event) ?? []
+      );
+    },
+
+    subscribe(onMatch) {
+      let closer: { close(): void } | undefined;
+      let stopped = false;
+      let caughtUp = false;
+
+      resolveWatchFilter(watchlist)
+        .then(({ relays, filter }) => {
+          if (stopped) return;
+          closer = pool.subscribeMany(
+            relays,
+            [{ ...filter, since: Math.floor(Date.now() / 1000) }],
+            {
+              onevent(event) {
+                const live = caughtUp;
+                moderateEvents([event])
+                  .then(([kept]) => {
+                    const match = kept && toMatch(kept);
+                    if (match) onMatch(match, live);
+                  })
+                  .catch((error) =>
+                    console.error('Error moderating watchlist match:', error)
+                  );
+              },
+              oneose() {
+                caughtUp = true;
+              },
+            }
+          );
+        })
+        .catch((error) =>
+          console.error(`Error subscribing to watchlist '${name}':`, error)
+        );
+
+      return () => {
+        stopped = true;
+        closer?.close();
+      };
+    },
+    pollInterval: WATCHLIST_POLL_INTERVAL,
+  };
+}
+
+/**
+ * Enable resource subscriptions and logging, and return a callback that tells
+ * the client about new watchlist matches: a resource-updated notification for
+ * subscribers of `watchlist://<name>` and an info log message
+ */
+function createWatchlistNotifier(
+  server: McpServer
+): (name: string, match: WatchMatch) => void {
+  const subscriptions = new Set<string>();
+  let logLevel = 'info';
+
+  server.server.registerCapabilities({
+    logging: {},
+    resources: { subscribe: true },
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logLevel = request.params.level;
+    return {};
+  });
+
+  return (name, match) => {
+    const uri = `watchlist://${encodeURIComponent(name)}`;
+    if (subscriptions.has(uri)) {
+      server.server
+        .sendResourceUpdated({ uri })
+        .catch((error) => console.error('Error sending notification:', error));
+    }
+
+    if (LOG_LEVELS.indexOf(logLevel) <= LOG_LEVELS.indexOf('info')) {
+      const { item } = match.entry;
+      const summary = item.title || item.content.slice(0, 80);
+      server.server
+        .sendLoggingMessage({
+          level: 'info',
+          logger: 'watchlists',
+          data: `New item in watchlist '${name}': ${summary}`,
+        })
+        .catch((error) => console.error('Error sending log message:', error));
+    }
+  };
+}
+
+/**
+ * Expose each watchlist's unchecked matches as a resource, without marking
+ * them as seen
+ */
+function registerWatchlistResources(
+  server: McpServer,
+  watchlists: WatchlistManager
 ) {
-  return createToolHandler<Parser.Item>(
-    fetchFunction,
-    formatRssItem,
-    notFoundMessage,
-    'Error fetching RSS feed'
+  server.resource(
+    'watchlists',
+    new ResourceTemplate('watchlist://{name}', {
+      list: () => ({
+        resources: watchlists.status().map(({ name, watchlist, pending }) => ({
+          uri: `watchlist://${encodeURIComponent(name)}`,
+          name,
+          description: `${describeWatchlist(watchlist)} (${pending} new)`,
+          mimeType: 'application/json',
+        })),
+      }),
+    }),
+    {
+      description: 'Items matching a watchlist since its last check',
+      mimeType: 'application/json',
+    },
+    async (uri, { name }) => {
+      const watchlistName = decodeURIComponent(String(name));
+      return jsonResource(uri, {
+        watchlist: watchlistName,
+        items: watchlists
+          .pending(watchlistName)
+          .map((match) => toJsonItem(match.entry)),
+      });
+    }
   );
 }
 
-async function startServer() {
+// Watchlists are shared by every connected client; each connection adds a
+// notifier for new matches while it is open
+const watchlistNotifiers = new Set<(name: string, match: WatchMatch) => void>();
+const watchlists = createWatchlistManager({
+  statePath: path.resolve(path.dirname(CONFIG_PATH), WATCHLIST_STATE_PATH),
+  createSource: createWatchSource,
+  onMatch: (name, match) =>
+    watchlistNotifiers.forEach((notify) => notify(name, match)),
+});
+
+// Digest jobs run in the background whether or not a client is connected
+const scheduler = createScheduler({
+  statePath: path.resolve(path.dirname(CONFIG_PATH), SCHEDULER_STATE_PATH),
+  jobs: () => (CONFIG.scheduler ?? DEFAULT_SCHEDULER).jobs,
+  runJob: runDigestJob,
+  keepAlive: process.argv.includes('--headless'),
+});
+
+/**
+ * Create an MCP server with every tool and resource registered. Stdio uses
+ * one; the HTTP transport creates one per connection.
+ */
+function createMcpServer(): McpServer {
   const server = new McpServer({
     name: 'Nostr Daily News',
     version: '1.0.0',
   });
 
-  const notesSchema = { limit: z.number().optional().default(DEFAULT_LIMIT) };
+  // Fetch tools and list/add/remove configuration tools for every source
+  registerSourceTools(server);
+  registerSourceResources(server);
+
+  const notify = createWatchlistNotifier(server);
+  watchlistNotifiers.add(notify);
+  server.server.onclose = () => watchlistNotifiers.delete(notify);
+  registerWatchlistResources(server, watchlists);
+
+  /**
+   * Custom fetch events tool handler that builds a filter from parameters
+   */
+  server.tool(
+    'fetch-custom-events',
+    'Fetch Nostr events with custom filters from specified relay URLs',
+    {
+      relays: z.array(z.string()),
+      limit: z.number().optional().default(DEFAULT_LIMIT),
+      kinds: z.array(z.number()).optional(),
+      authors: z
+        .array(z.string())
+        .optional()
+        .describe('Hex pubkeys, npub, nprofile or NIP-05 (name@domain)'),
+      ids: z
+        .array(z.string())
+        .optional()
+        .describe('Hex event ids, note or nevent'),
+      since: z.number().optional(),
+      until: z.number().optional(),
+      ...engagementSchema,
+      ...powSchema,
+      ...cursorSchema,
+      ...outputSchema,
+    },
+    async ({
+      relays,
+      limit,
+      kinds,
+      authors,
+      ids,
+      since,
+      until,
+      withEngagement,
+      rankByEngagement,
+      minPow,
+      cursor,
+      output,
+    }) => {
+      try {
+        // Resolve NIP-19 and NIP-05 identifiers, collecting relay hints
+        const resolvedAuthors = await resolveIdentifiers(authors ?? []);
+        const resolvedIds = await resolveIdentifiers(ids ?? [], 'id');
+        const pubkeys = [...resolvedAuthors.pubkeys, ...resolvedIds.pubkeys];
+        const eventIds = [...resolvedAuthors.ids, ...resolvedIds.ids];
+        const queryRelays = [
+          ...new Set([
+            ...relays,
+            ...resolvedAuthors.relays,
+            ...resolvedIds.relays,
+          ]),
+        ];
+
+        // Build filter from parameters
+        const filter: Filter = { limit };
+        if (kinds) filter.kinds = kinds;
+        if (pubkeys.length > 0) filter.authors = pubkeys;
+        if (eventIds.length > 0) filter.ids = eventIds;
+        if (since) filter.since = since;
+        if (until) filter.until = until;
+
+        // Fetch and format events
+        const events = await fetchNotes(queryRelays, filter, {
+          withEngagement,
+          rankByEngagement,
+          minPow,
+          cursor,
+        });
+        const note = joinNotes(
+          describeRelayStatus(events),
+          describeModerationResult(events)
+        );
+        const entries = events.map((event) => ({
+          item: nostrEventToFormattedItem(event),
+          raw: event,
+        }));
+        recordResult('fetch-custom-events', entries, note);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: renderItems(
+                entries,
+                output,
+                'No events found for the specified filter.',
+                note,
+                itemPages.get(events)
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error fetching events');
+      }
+    }
+  );
 
+  /**
+   * Fetch NIP-23 long-form articles
+   */
   server.tool(
-    'fetch-trending-notes',
-    'Fetch trending notes from nostr',
-    notesSchema,
-    createNotesToolHandler(fetchTrendingNotes, 'No trending notes found.')
+    'fetch-articles',
+    'Fetch long-form Nostr articles (NIP-23, kind 30023) by author, hashtag or d tag',
+    {
+      authors: z
+        .array(z.string())
+        .optional()
+        .describe('Hex pubkeys, npub, nprofile or NIP-05 (name@domain)'),
+      hashtags: z.array(z.string()).optional(),
+      identifiers: z
+        .array(z.string())
+        .optional()
+        .describe('Article d tags (slugs) or naddr codes'),
+      relayGroup: z
+        .string()
+        .optional()
+        .default('news')
+        .describe('Relay group to query, plus any relay hints'),
+      limit: z.number().optional().default(DEFAULT_LIMIT),
+      ...engagementSchema,
+      ...cursorSchema,
+      ...outputSchema,
+    },
+    async ({
+      authors,
+      hashtags,
+      identifiers,
+      relayGroup,
+      limit,
+      withEngagement,
+      rankByEngagement,
+      cursor,
+      output,
+    }) => {
+      try {
+        const groupRelays = CONFIG.relays[relayGroup];
+        if (!groupRelays) {
+          throw new Error(
+            `Relay group '${relayGroup}' not found in configuration`
+          );
+        }
+
+        const resolved = await resolveIdentifiers(authors ?? []);
+        const pubkeys = [...resolved.pubkeys];
+        const relays = [...groupRelays, ...resolved.relays];
+        const dTags: string[] = [];
+        for (const identifier of identifiers ?? []) {
+          const code = identifier.trim().replace(/^nostr:/, '');
+          if (!code.startsWith('naddr1')) {
+            dTags.push(identifier);
+            continue;
+          }
+          const decoded = decode(code);
+          if (decoded.type !== 'naddr') {
+            throw new Error(`'${identifier}' is not a valid naddr`);
+          }
+          dTags.push(decoded.data.identifier);
+          pubkeys.push(decoded.data.pubkey);
+          relays.push(...(decoded.data.relays ?? []));
+        }
+
+        const filter: Filter = { kinds: [LONG_FORM_KIND], limit };
+        if (pubkeys.length > 0) filter.authors = [...new Set(pubkeys)];
+        if (hashtags?.length) {
+          filter['#t'] = hashtags.map((tag) => tag.replace(/^#/, ''));
+        }
+        if (dTags.length > 0) filter['#d'] = dTags;
+
+        const events = await fetchNotes([...new Set(relays)], filter, {
+          withEngagement,
+          rankByEngagement,
+          cursor,
+        });
+        // Relays may still hold older versions of replaceable articles
+        const articles = latestArticleVersions(events);
+        const note = joinNotes(
+          describeRelayStatus(events),
+          describeModerationResult(events)
+        );
+        const entries = articles.map((event) => ({
+          item: nostrEventToFormattedItem(event),
+          raw: event,
+        }));
+        recordResult('fetch-articles', entries, note);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: renderItems(
+                entries,
+                output,
+                'No articles found.',
+                note,
+                itemPages.get(events)
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error fetching articles');
+      }
+    }
   );
 
+  /**
+   * Fetch notes from the accounts a user follows, using their outbox relays
+   */
   server.tool(
-    'fetch-news-notes',
-    'Fetch latest news from nostr',
-    notesSchema,
-    createNotesToolHandler(fetchNewsNotes, 'No news notes found.')
+    'fetch-following-feed',
+    "Fetch recent notes from the accounts a user follows (kind 3 contact list), querying each author's NIP-65 write relays",
+    {
+      pubkey: z
+        .string()
+        .describe('Hex pubkey, npub, nprofile or NIP-05 (name@domain)'),
+      hours: z
+        .number()
+        .positive()
+        .optional()
+        .default(24)
+        .describe('How far back to look for notes'),
+      limit: z.number().optional().default(DEFAULT_LIMIT),
+      relayGroup: z
+        .string()
+        .optional()
+        .describe(
+          'Relay group to look up contact and relay lists on (default: all configured relays)'
+        ),
+      maxRelays: z
+        .number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(20)
+        .describe('Most outbox relays to query'),
+      rankByOverlap: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          'Rank notes by how many of the followed accounts also follow the author'
+        ),
+      ...cursorSchema,
+      ...outputSchema,
+    },
+    async ({
+      pubkey,
+      hours,
+      limit,
+      relayGroup,
+      maxRelays,
+      rankByOverlap,
+      cursor,
+      output,
+    }) => {
+      try {
+        const resolved = await resolveIdentifiers([pubkey]);
+        const [target] = resolved.pubkeys;
+        if (!target) throw new Error(`'${pubkey}' is not a pubkey`);
+
+        const groupRelays = relayGroup
+          ? CONFIG.relays[relayGroup]
+          : Object.values(CONFIG.relays).flat();
+        if (!groupRelays) {
+          throw new Error(
+            `Relay group '${relayGroup}' not found in configuration`
+          );
+        }
+        const indexRelays = [...new Set([...groupRelays, ...resolved.relays])];
+
+        const feed = await fetchFollowingFeed(queryEvents, target, {
+          indexRelays,
+          since: Math.floor(Date.now() / 1000 - hours * 60 * 60),
+          limit,
+          kinds: [1],
+          maxRelays,
+          relaysPerAuthor: RELAYS_PER_AUTHOR,
+          withOverlap: rankByOverlap,
+          cursor: cursor ? decodeNostrCursor(cursor) : undefined,
+        });
+        archiveEntries(
+          [...feed.relays.keys()],
+          feed.events.map(nostrEventToArchiveEntry)
+        );
+        let events = await moderateEvents(feed.events);
+        const moderation = describeModerationResult(events);
+
+        try {
+          await profiles.load(indexRelays, [
+            ...new Set(
+              events.flatMap((event) => [
+                event.pubkey,
+                ...getReferencedPubkeys(event),
+              ])
+            ),
+          ]);
+        } catch (error) {
+          console.error('Error loading author profiles:', error);
+        }
+
+        const overlap = feed.overlap;
+        if (overlap) {
+          events = [...events].sort(
+            (a, b) =>
+              (overlap.get(b.pubkey) ?? 0) - (overlap.get(a.pubkey) ?? 0) ||
+              b.created_at - a.created_at
+          );
+        }
+
+        const note = joinNotes(
+          `Following ${feed.follows} account${feed.follows === 1 ? '' : 's'}; ` +
+            `queried ${feed.relays.size} relay${feed.relays.size === 1 ? '' : 's'}` +
+            (feed.withoutRelayList > 0
+              ? `, using fallback relays for ${feed.withoutRelayList} without a relay list`
+              : ''),
+          feed.failedRelays.length > 0
+            ? `Failed: ${feed.failedRelays.join(', ')}`
+            : undefined,
+          moderation
+        );
+        const entries = events.map((event) => {
+          const item = nostrEventToFormattedItem(event);
+          const followers = overlap?.get(event.pubkey);
+          if (followers !== undefined) {
+            item.metadata = {
+              ...item.metadata,
+              followedBy: `${followers} of the accounts ${pubkey} follows`,
+            };
+          }
+          return { item, raw: event };
+        });
+        recordResult('fetch-following-feed', entries, note);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: renderItems(
+                entries,
+                output,
+                'No recent notes from followed accounts.',
+                note,
+                { nextCursor: feed.nextCursor }
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error fetching following feed');
+      }
+    }
+  );
+
+  /**
+   * Fetch the conversation around a note
+   */
+  server.tool(
+    'fetch-thread',
+    'Fetch the conversation tree (root, ancestors and replies) around a Nostr note',
+    {
+      id: z.string().describe('Hex event id, note or nevent'),
+      relayGroup: z.string().optional().default('trending'),
+      relays: z.array(z.string()).optional().default([]),
+      maxDepth: z.number().optional().default(5),
+      maxReplies: z.number().optional().default(50),
+      ...outputSchema,
+    },
+    async ({ id, relayGroup, relays, maxDepth, maxReplies, output }) => {
+      try {
+        const groupRelays = CONFIG.relays[relayGroup];
+        if (!groupRelays) {
+          throw new Error(
+            `Relay group '${relayGroup}' not found in configuration`
+          );
+        }
+
+        const resolved = await resolveIdentifiers([id], 'id');
+        const [eventId] = resolved.ids;
+        if (!eventId) throw new Error(`'${id}' is not an event identifier`);
+
+        const threadRelays = [
+          ...new Set([...groupRelays, ...relays, ...resolved.relays]),
+        ];
+        const thread = await fetchThread(fetchEvents, threadRelays, eventId, {
+          maxDepth,
+          maxReplies,
+        });
+
+        // The root and the requested note always stay so the thread keeps
+        // its shape; moderation applies to everything around them
+        const moderated = await moderateEvents(
+          thread.events.filter(
+            (event) =>
+              event.id !== thread.root.event.id && event.id !== thread.targetId
+          )
+        );
+        const moderation = describeModerationResult(moderated);
+        const keptIds = new Set(moderated.map((event) => event.id));
+        const root = filterThread(
+          thread.root,
+          (event) => event.id === thread.targetId || keptIds.has(event.id)
+        );
+
+        try {
+          await profiles.load(
+            threadRelays,
+            thread.events
+              .filter(
+                (event) =>
+                  keptIds.has(event.id) ||
+                  event.id === root.event.id ||
+                  event.id === thread.targetId
+              )
+              .map((event) => event.pubkey)
+          );
+        } catch (error) {
+          console.error('Error loading author profiles:', error);
+        }
+
+        const notes = [
+          thread.truncated
+            ? `Reply limit of ${maxReplies} reached; thread truncated.`
+            : undefined,
+          moderation,
+        ].filter((note): note is string => !!note);
+        let text: string;
+        if (output === 'json') {
+          text = JSON.stringify(
+            {
+              targetId: thread.targetId,
+              truncated: thread.truncated,
+              ...(moderation ? { note: moderation } : {}),
+              root: threadNodeToJson(root),
+            },
+            null,
+            2
+          );
+        } else if (output === 'markdown') {
+          text = [
+            formatThreadNodeMarkdown(root, thread.targetId),
+            ...notes.map((note) => `> ${note}`),
+          ].join('\n\n');
+        } else {
+          text = [
+            formatThreadNode(root, thread.targetId),
+            ...notes.map((note) => `(${note})`),
+          ].join('\n\n');
+        }
+
+        return {
+          content: [{ type: 'text' as const, text }],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error fetching thread');
+      }
+    }
+  );
+
+  /**
+   * Fetch the comment tree for a Hacker News or Stacker News item
+   */
+  server.tool(
+    'fetch-hn-discussion',
+    'Fetch the comment tree for a Hacker News or Stacker News story, from an item id or URL (e.g. an RSS item link or comments field)',
+    {
+      item: z
+        .string()
+        .describe(
+          'Item id, news.ycombinator.com/item?id=... or stacker.news/items/... URL'
+        ),
+      source: z
+        .enum(['hackerNews', 'stackerNews'])
+        .optional()
+        .default('hackerNews')
+        .describe('Site for bare item ids'),
+      maxDepth: z.number().optional().default(4),
+      maxComments: z.number().optional().default(100),
+      ...outputSchema,
+    },
+    async ({ item, source, maxDepth, maxComments, output }) => {
+      try {
+        const discussion = await fetchDiscussion(
+          item,
+          { maxDepth, maxComments },
+          { defaultSource: source }
+        );
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text:
+                output === 'json'
+                  ? JSON.stringify(discussion, null, 2)
+                  : formatDiscussion(discussion, output === 'markdown'),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error fetching discussion');
+      }
+    }
   );
 
   /**
-   * Custom fetch events tool handler that builds a filter from parameters
+   * Fetch and extract the main content of a linked page
    */
   server.tool(
-    'fetch-custom-events',
-    'Fetch Nostr events with custom filters from specified relay URLs',
+    'fetch-article',
+    'Fetch a web page (e.g. an RSS item link) and extract its title, byline, date and main text. Discussion links such as HN or Stacker News items are reported as comment pages.',
     {
-      relays: z.array(z.string()),
-      limit: z.number().optional().default(DEFAULT_LIMIT),
-      kinds: z.array(z.number()).optional(),
-      authors: z.array(z.string()).optional(),
-      since: z.number().optional(),
-      until: z.number().optional(),
+      url: z.string().url(),
+      ...outputSchema,
     },
-    async ({ relays, limit, kinds, authors, since, until }) => {
+    async ({ url, output }) => {
       try {
-        // Build filter from parameters
-        const filter: Filter = { limit };
-        if (kinds) filter.kinds = kinds;
-        if (authors) filter.authors = authors;
-        if (since) filter.since = since;
-        if (until) filter.until = until;
-
-        // Fetch and format events
-        const events = await fetchEvents(relays, filter);
-
-        if (events.length === 0) {
+        const article = await loadArticle(url);
+        if (output === 'json') {
           return {
             content: [
-              {
-                type: 'text' as const,
-                text: 'No events found for the specified filter.',
-              },
+              { type: 'text' as const, text: JSON.stringify(article, null, 2) },
             ],
           };
         }
 
+        const markdown = output === 'markdown';
+        const header = [
+          markdown ? `# ${article.title ?? url}` : article.title,
+          article.type === 'comments' &&
+            'Comment page: this link is a discussion thread, not an article.',
+          article.byline && `Byline: ${article.byline}`,
+          article.publishedAt && `Published: ${article.publishedAt}`,
+          markdown ? `<${url}>` : url,
+        ].filter(Boolean);
+        const body = markdown ? article.markdown : article.text;
+
         return {
           content: [
             {
               type: 'text' as const,
-              text: events.map(formatNostrEvent).join('\n\n'),
+              text: [
+                header.join(markdown ? '\n\n' : '\n'),
+                body || 'No readable content found.',
+                ...(article.truncated
+                  ? ['(Content truncated at the configured size limit.)']
+                  : []),
+              ].join('\n\n'),
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error fetching events');
+        return handleToolError(error, 'Error fetching article');
       }
     }
   );
 
   /**
-   * Fetch from a configured relay group
+   * Search notes across relay groups and, optionally, RSS feeds
    */
   server.tool(
-    'fetch-relay-group',
-    'Fetch notes from a configured relay group',
+    'search-notes',
+    'Search Nostr notes by keyword, hashtag or phrase (NIP-50 where supported), optionally searching RSS feeds too',
     {
-      relayGroup: z.string(),
+      ...searchQuerySchema.shape,
+      relayGroups: z.array(z.string()).optional().default(['trending', 'news']),
+      relays: z.array(z.string()).optional().default([]),
+      feeds: z.array(z.string()).optional().default([]),
       limit: z.number().optional().default(DEFAULT_LIMIT),
+      ...cursorSchema,
+      ...outputSchema,
     },
-    createToolHandler<NostrEvent>(
-      // Adapter function that matches the expected signature
-      (limit, relayGroup) => fetchCustomRelayNotes(relayGroup, limit),
-      formatNostrEvent,
-      'No events found for the specified relay group.',
-      'Error fetching events from relay group'
-    )
-  );
+    async ({
+      keywords,
+      hashtags,
+      phrase,
+      relayGroups,
+      relays,
+      feeds,
+      limit,
+      cursor,
+      output,
+    }) => {
+      try {
+        const search = { keywords, hashtags, phrase };
+        if (isEmptySearch(search)) {
+          throw new Error('Provide keywords, hashtags or a phrase to search');
+        }
 
-  server.tool(
-    'fetch-stacker-news',
-    'Fetch latest news and discussions from Stacker News RSS feed',
-    notesSchema,
-    createRssToolHandler(fetchStackerNews, 'No Stacker News items found.')
-  );
+        const searchRelays = new Set(relays);
+        for (const group of relayGroups) {
+          const groupRelays = CONFIG.relays[group];
+          if (!groupRelays) {
+            throw new Error(
+              `Relay group '${group}' not found in configuration`
+            );
+          }
+          groupRelays.forEach((relay) => searchRelays.add(relay));
+        }
 
-  /**
-   * Fetch from Hacker News RSS feed by type
-   */
-  server.tool(
-    'fetch-hacker-news',
-    'Fetch latest news and discussions from Hacker News RSS feed',
-    {
-      limit: z.number().optional().default(DEFAULT_LIMIT),
-      type: z
-        .enum(['newest', 'frontpage', 'bestComments', 'ask', 'show'])
-        .optional()
-        .default('newest'),
-    },
-    createToolHandler<Parser.Item>(
-      (limit, type) => fetchHackerNews(type, limit),
-      formatRssItem,
-      'No Hacker News items found.',
-      'Error fetching Hacker News RSS feed'
-    )
+        // Later pages come from the snapshot, so only the first page has
+        // the moderation note
+        let note: string | undefined;
+        const { items: entries, nextCursor } = await searchSnapshots.page(
+          JSON.stringify([search, [...searchRelays].sort(), feeds]),
+          async () => {
+            const [noteResults, feedResults] = await Promise.all([
+              searchNotes(
+                fetchEvents,
+                [...searchRelays],
+                search,
+                limit * SEARCH_SNAPSHOT_PAGES
+              ),
+              Promise.all(
+                feeds.map(async (feed) => ({
+                  feed,
+                  ...(await fetchSourceItems(feed, Infinity, 'RSS feed')),
+                }))
+              ),
+            ]);
+
+            const keptEvents = await moderateEvents(
+              noteResults.map(({ event }) => event)
+            );
+            const kept = new Set(keptEvents);
+            note = describeModeration(
+              mergeReports(
+                [keptEvents, ...feedResults.map(({ items }) => items)].flatMap(
+                  (items) => moderationReports.get(items) ?? []
+                )
+              )
+            );
+
+            try {
+              await profiles.load(
+                [...searchRelays],
+                keptEvents.map((event) => event.pubkey)
+              );
+            } catch (error) {
+              console.error('Error loading author profiles:', error);
+            }
+
+            return [
+              ...noteResults
+                .filter(({ event }) => kept.has(event))
+                .map(({ event, relays }) => {
+                  const item = nostrEventToFormattedItem(event);
+                  item.metadata = {
+                    ...item.metadata,
+                    matchedOn: relays.join(', '),
+                  };
+                  return { item, raw: event };
+                }),
+              ...feedResults.flatMap(({ feed, adapter, items }) =>
+                items
+                  .map((feedItem) => {
+                    const item = adapter.normalize(feedItem);
+                    item.metadata = { ...item.metadata, feed };
+                    return { item, raw: feedItem };
+                  })
+                  .filter(({ item }) => itemMatchesSearch(item, search))
+                  .slice(0, limit * SEARCH_SNAPSHOT_PAGES)
+              ),
+            ];
+          },
+          limit,
+          cursor
+        );
+        recordResult('search-notes', entries, note);
+
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: renderItems(
+                entries,
+                output,
+                'No matching notes or items found.',
+                note,
+                { nextCursor }
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error searching notes');
+      }
+    }
   );
 
   /**
-   * Fetch from a custom RSS feed by name
+   * Build a single briefing across relay groups and RSS feeds
    */
   server.tool(
-    'fetch-custom-rss',
-    'Fetch news from a custom RSS feed',
+    'build-daily-digest',
+    'Build a deduplicated daily digest from Nostr relay groups and RSS feeds, grouped by source',
     {
-      feedName: z.string(),
+      relayGroups: z.array(z.string()).optional().default(['trending', 'news']),
+      feeds: z
+        .array(z.string())
+        .optional()
+        .default(['stackerNews', 'hackerNews.frontpage']),
       limit: z.number().optional().default(DEFAULT_LIMIT),
+      ...outputSchema,
     },
-    createToolHandler<Parser.Item>(
-      (limit, feedName) => fetchCustomRssFeed(feedName, limit),
-      formatRssItem,
-      'No items found for the specified RSS feed.',
-      'Error fetching custom RSS feed'
-    )
+    async ({ relayGroups, feeds, limit, output }) => {
+      try {
+        const digest = await collectDigest(
+          'Daily digest',
+          relayGroups,
+          feeds,
+          limit
+        );
+        const render =
+          output === 'json'
+            ? renderDigestJson
+            : output === 'markdown'
+              ? renderDigestMarkdown
+              : renderDigestText;
+        return {
+          content: [{ type: 'text' as const, text: render(digest) }],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error building daily digest');
+      }
+    }
   );
 
-  // Configuration management tools
-  server.tool('get-config', 'Get the current configuration', {}, async () => {
-    try {
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(CONFIG, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      return handleToolError(error, 'Error retrieving configuration');
+  server.tool(
+    'list-scheduled-jobs',
+    'List scheduled digest jobs with their schedule, next run, last run status and output files',
+    {},
+    async () => {
+      const statuses = scheduler.status();
+      const text =
+        statuses.length === 0
+          ? 'No scheduled jobs configured. Add them under scheduler.jobs in the config.'
+          : statuses
+              .map(({ name, job, nextRun, lastRun }) =>
+                [
+                  `${name}: ${job.schedule}` +
+                    (job.enabled === false ? ' (disabled)' : ''),
+                  `  Sources: ${[...(job.relayGroups ?? []), ...(job.feeds ?? [])].join(', ')}`,
+                  `  Next run: ${nextRun ? new Date(nextRun).toISOString() : 'not scheduled'}`,
+                  lastRun
+                    ? `  Last run: ${new Date(lastRun.startedAt).toISOString()} (${lastRun.status})`
+                    : '  Last run: never',
+                  ...(lastRun?.error ? [`  Error: ${lastRun.error}`] : []),
+                  ...(lastRun?.summary ? [`  ${lastRun.summary}`] : []),
+                  ...(lastRun?.outputs.map((output) => `  Output: ${output}`) ??
+                    []),
+                ].join('\n')
+              )
+              .join('\n\n');
+      return { content: [{ type: 'text' as const, text }] };
     }
-  });
+  );
 
   server.tool(
-    'add-relay-group',
-    'Add a new relay group to the configuration',
+    'run-scheduled-job',
+    'Run a scheduled digest job now and write its output files',
     {
       name: z.string(),
-      relays: z.array(z.string()),
     },
-    async ({ name, relays }) => {
+    async ({ name }) => {
       try {
-        if (name === 'custom') {
-          // Add to custom array
-          CONFIG.relays.custom = [...CONFIG.relays.custom, ...relays];
-        } else {
-          // Create or update named group
-          CONFIG.relays[name] = relays;
-        }
-
-        saveConfig(CONFIG);
-
+        const run = await scheduler.run(name);
+        if (run.status === 'error') throw new Error(run.error);
         return {
           content: [
             {
               type: 'text' as const,
-              text: `Relay group '${name}' has been added/updated with ${relays.length} relays.`,
+              text: [
+                run.summary,
+                ...run.outputs.map((output) => `Wrote ${output}`),
+              ].join('\n'),
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error adding relay group');
+        return handleToolError(error, 'Error running scheduled job');
       }
     }
   );
 
+  /**
+   * Group recent items from several sources into ranked topics
+   */
   server.tool(
-    'add-rss-feed',
-    'Add a new RSS feed to the configuration',
+    'detect-trends',
+    'Group recent items from relay groups and feeds into topics (shared links, hashtags and similar wording) and rank them by mentions, source diversity and recency',
     {
-      name: z.string(),
-      url: z.string(),
+      sources: z
+        .array(z.string())
+        .optional()
+        .default(['trending', 'news', 'stackerNews', 'hackerNews.frontpage'])
+        .describe('Relay group, feed or feed group names'),
+      hours: z
+        .number()
+        .positive()
+        .optional()
+        .default(24)
+        .describe('Only include items from the last N hours'),
+      limit: z
+        .number()
+        .optional()
+        .default(TREND_SOURCE_LIMIT)
+        .describe('Items to fetch from each source'),
+      minMentions: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(2)
+        .describe('Leave out topics with fewer items than this'),
+      maxTopics: z.number().int().positive().optional().default(10),
+      ...outputSchema,
     },
-    async ({ name, url }) => {
+    async ({ sources, hours, limit, minMentions, maxTopics, output }) => {
       try {
-        // Test that the feed is valid
-        await rssParser.parseURL(url);
-
-        // Add to custom feeds
-        const customFeeds = CONFIG.rssFeeds.custom as Record<string, string>;
-        customFeeds[name] = url;
-
-        saveConfig(CONFIG);
-
+        const { topics, note } = await detectTrends(
+          sources,
+          hours,
+          limit,
+          minMentions
+        );
         return {
           content: [
             {
               type: 'text' as const,
-              text: `RSS feed '${name}' has been added with URL: ${url}`,
+              text: formatTopics(topics.slice(0, maxTopics), output, note),
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error adding RSS feed');
+        return handleToolError(error, 'Error detecting trends');
       }
     }
   );
 
   server.tool(
-    'list-relay-groups',
-    'List all available relay groups',
+    'list-watchlists',
+    'List watchlists with the number of new items waiting for each',
     {},
     async () => {
-      try {
-        const groups = Object.entries(CONFIG.relays).map(([name, relays]) => {
-          return `${name}: ${Array.isArray(relays) ? relays.join(', ') : 'Invalid relay group'}`;
-        });
+      const statuses = watchlists.status();
+      const text =
+        statuses.length === 0
+          ? 'No watchlists configured. Add one with add-watchlist.'
+          : statuses
+              .map(
+                ({ name, watchlist, pending, lastCheck }) =>
+                  `${name}: ${describeWatchlist(watchlist)}\n` +
+                  `  ${pending} new since last check` +
+                  (lastCheck
+                    ? ` (${new Date(lastCheck).toISOString()})`
+                    : ' (never checked)')
+              )
+              .join('\n');
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
 
+  server.tool(
+    'check-watchlist',
+    'Get items matching a watchlist that have not been returned by an earlier check',
+    {
+      name: z.string(),
+      limit: z
+        .number()
+        .optional()
+        .default(WATCHLIST_POLL_LIMIT)
+        .describe('Maximum items to return; the rest are still marked as seen'),
+      ...outputSchema,
+    },
+    async ({ name, limit, output }) => {
+      try {
+        const matches = await watchlists.check(name);
+        const note =
+          matches.length > limit
+            ? `Showing ${limit} of ${matches.length} new items`
+            : undefined;
+        const entries = matches.slice(0, limit).map((match) => match.entry);
+        recordResult('check-watchlist', entries, note);
         return {
           content: [
             {
               type: 'text' as const,
-              text: groups.join('\n\n'),
+              text: renderItems(
+                entries,
+                output,
+                `No new items in watchlist '${name}' since the last check.`,
+                note
+              ),
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error listing relay groups');
+        return handleToolError(error, 'Error checking watchlist');
       }
     }
   );
 
   server.tool(
-    'list-rss-feeds',
-    'List all available RSS feeds',
-    {},
-    async () => {
+    'add-watchlist',
+    'Add or replace a watchlist: Nostr notes matching a filter on a relay group, RSS feed items mentioning keywords, or notes by an author',
+    {
+      name: z.string(),
+      type: z.enum(['nostr', 'rss', 'author']),
+      relayGroup: z
+        .string()
+        .optional()
+        .describe('Relay group to watch (nostr and author watchlists)'),
+      feed: z
+        .string()
+        .optional()
+        .describe('Feed name, e.g. hackerNews.frontpage (rss watchlists)'),
+      author: z
+        .string()
+        .optional()
+        .describe('npub, hex pubkey or NIP-05 name (author watchlists)'),
+      kinds: z.array(z.number()).optional(),
+      authors: z.array(z.string()).optional(),
+      hashtags: z.array(z.string()).optional(),
+      keywords: z
+        .array(z.string())
+        .optional()
+        .describe('Only match items mentioning one of these words'),
+      pollInterval: z
+        .number()
+        .optional()
+        .describe('Milliseconds between RSS polls, at least 60000'),
+    },
+    async ({ name, ...params }) => {
       try {
-        const feeds: string[] = [];
-
-        // Add stackerNews
-        feeds.push(`stackerNews: ${CONFIG.rssFeeds.stackerNews}`);
-
-        // Add hackerNews feeds
-        const hackerNews = CONFIG.rssFeeds.hackerNews as HackerNewsConfig;
-        Object.entries(hackerNews).forEach(([type, url]) => {
-          feeds.push(`hackerNews.${type}: ${url}`);
-        });
-
-        // Add custom feeds
-        const customFeeds = CONFIG.rssFeeds.custom as Record<string, string>;
-        Object.entries(customFeeds).forEach(([name, url]) => {
-          feeds.push(`${name}: ${url}`);
-        });
+        const result = watchlistSchema.safeParse(
+          Object.fromEntries(
+            Object.entries(params).filter(([, value]) => value !== undefined)
+          )
+        );
+        if (!result.success) {
+          throw new Error(
+            result.error.issues
+              .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+              .join(', ')
+          );
+        }
+        const watchlist = result.data;
+        if (watchlist.type === 'rss') {
+          if (!sourceRegistry.resolve(watchlist.feed, 'RSS feed')) {
+            throw new Error(`RSS feed '${watchlist.feed}' not found`);
+          }
+        } else if (!CONFIG.relays[watchlist.relayGroup]) {
+          throw new Error(`Relay group '${watchlist.relayGroup}' not found`);
+        }
 
+        CONFIG.watchlists = { ...CONFIG.watchlists, [name]: watchlist };
+        saveConfig(CONFIG);
+        watchlists.sync(CONFIG.watchlists);
         return {
           content: [
             {
               type: 'text' as const,
-              text: feeds.join('\n\n'),
+              text: `Watchlist '${name}' saved: ${describeWatchlist(watchlist)}`,
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error listing RSS feeds');
+        return handleToolError(error, 'Error adding watchlist');
+      }
+    }
+  );
+
+  server.tool(
+    'remove-watchlist',
+    'Remove a watchlist and forget which of its items were seen',
+    { name: z.string() },
+    async ({ name }) => {
+      if (!CONFIG.watchlists?.[name]) {
+        return {
+          content: [
+            { type: 'text' as const, text: `Watchlist '${name}' not found.` },
+          ],
+        };
       }
+
+      const { [name]: _, ...rest } = CONFIG.watchlists;
+      CONFIG.watchlists = rest;
+      saveConfig(CONFIG);
+      watchlists.sync(rest);
+      watchlists.forget(name);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Watchlist '${name}' has been removed.`,
+          },
+        ],
+      };
     }
   );
 
+  /**
+   * Query items stored in the local archive
+   */
   server.tool(
-    'remove-relay-group',
-    'Remove a relay group from the configuration',
+    'query-archive',
+    'Search previously fetched Nostr events and RSS items stored in the local archive',
     {
-      name: z.string(),
+      source: z
+        .string()
+        .optional()
+        .describe('Relay group, feed name (e.g. hackerNews.frontpage) or URL'),
+      kind: z.enum(['nostr', 'rss']).optional(),
+      since: z.string().optional().describe('ISO date or timestamp'),
+      until: z.string().optional().describe('ISO date or timestamp'),
+      author: z
+        .string()
+        .optional()
+        .describe(
+          'npub, hex pubkey or NIP-05 name of a Nostr author, or part of an RSS author name'
+        ),
+      text: z.string().optional(),
+      limit: z.number().optional().default(DEFAULT_LIMIT),
     },
-    async ({ name }) => {
+    async ({ source, kind, since, until, author, text, limit }) => {
       try {
-        if (name === 'trending' || name === 'news') {
-          return {
-            content: [
-              {
-                type: 'text' as const,
-                text: `Cannot remove built-in relay group '${name}'. You can update it instead.`,
-              },
-            ],
-          };
+        if (!archive) {
+          throw new Error(
+            'Archive is disabled. Set archive.enabled to true in config.json and restart the server.'
+          );
         }
 
-        if (name === 'custom') {
-          CONFIG.relays.custom = [];
-        } else if (CONFIG.relays[name]) {
-          delete CONFIG.relays[name];
-        } else {
+        const records = archive.query({
+          kind,
+          sources: source ? resolveArchiveSources(source) : undefined,
+          since: since ? parseDateParam(since, 'since') : undefined,
+          until: until ? parseDateParam(until, 'until') : undefined,
+          author,
+          pubkey: author ? await resolveArchiveAuthor(author) : undefined,
+          text,
+          limit,
+        });
+
+        if (records.length === 0) {
           return {
             content: [
               {
                 type: 'text' as const,
-                text: `Relay group '${name}' not found.`,
+                text: 'No archived items found for the specified query.',
               },
             ],
           };
         }
 
-        saveConfig(CONFIG);
-
         return {
           content: [
             {
               type: 'text' as const,
-              text: `Relay group '${name}' has been removed.`,
+              text: records
+                .map((record) =>
+                  record.kind === 'nostr'
+                    ? formatNostrEvent(record.raw as NostrEvent)
+                    : formatRssItem(record.raw as Parser.Item)
+                )
+                .join('\n\n'),
             },
           ],
         };
       } catch (error) {
-        return handleToolError(error, 'Error removing relay group');
+        return handleToolError(error, 'Error querying archive');
       }
     }
   );
 
   server.tool(
-    'remove-rss-feed',
-    'Remove an RSS feed from the configuration',
-    {
-      name: z.string(),
-    },
-    async ({ name }) => {
+    'relay-health',
+    'Report latency, success rate and last error for each relay queried this session',
+    {},
+    async () => {
       try {
-        if (name === 'stackerNews' || name.startsWith('hackerNews.')) {
+        const report = relayHealth.report();
+        if (report.length === 0) {
           return {
             content: [
               {
                 type: 'text' as const,
-                text: `Cannot remove built-in RSS feed '${name}'. You can update it instead.`,
+                text: 'No relays have been queried yet.',
               },
             ],
           };
         }
 
-        const customFeeds = CONFIG.rssFeeds.custom as Record<string, string>;
-        if (customFeeds[name]) {
-          delete customFeeds[name];
-          saveConfig(CONFIG);
+        const lines = report.map((health) =>
+          [
+            health.relay,
+            `Queries: ${health.queries}`,
+            `Success rate: ${Math.round((health.successes / health.queries) * 100)}%`,
+            `Latency: ${health.averageLatency}ms average, ${health.lastLatency}ms last`,
+            `Invalid events: ${health.invalidEvents}`,
+            health.lastError
+              ? `Last error: ${health.lastError} (${formatDate(new Date(health.lastErrorAt ?? 0))})`
+              : 'Last error: none',
+          ].join('\n')
+        );
+
+        return {
+          content: [{ type: 'text' as const, text: lines.join('\n\n') }],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error reporting relay health');
+      }
+    }
+  );
+
+  server.tool(
+    'publish-note',
+    'Sign and publish a note (kind 1) or long-form article (kind 30023) to a relay group. Always run with dryRun first, then publish with the returned confirmation token.',
+    {
+      content: z.string().describe('Note or article content'),
+      relayGroup: z.string().describe('Relay group to publish to'),
+      kind: z
+        .union([z.literal(1), z.literal(30023)])
+        .optional()
+        .default(1)
+        .describe('1 for a short note, 30023 for a long-form article'),
+      title: z.string().optional().describe('Article title (kind 30023)'),
+      summary: z.string().optional().describe('Article summary (kind 30023)'),
+      identifier: z
+        .string()
+        .optional()
+        .describe(
+          'Article `d` identifier; defaults to a slug of the title, or a hash of the content'
+        ),
+      hashtags: z.array(z.string()).optional(),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Return the unsigned event without publishing'),
+      confirm: z
+        .string()
+        .optional()
+        .describe('Confirmation token from a dry run of the same event'),
+    },
+    async ({ relayGroup, dryRun, confirm, ...draft }) => {
+      try {
+        const relays = CONFIG.relays[relayGroup];
+        if (!relays || relays.length === 0) {
+          throw new Error(
+            `Relay group '${relayGroup}' not found in configuration`
+          );
+        }
+
+        const template = buildEventTemplate(draft);
+        const token = confirmationToken(template);
 
+        if (dryRun) {
           return {
             content: [
               {
                 type: 'text' as const,
-                text: `RSS feed '${name}' has been removed.`,
+                text: [
+                  `Dry run: this unsigned event would be published to ${relays.join(', ')}`,
+                  JSON.stringify(template, null, 2),
+                  `To publish it, call publish-note again with the same content, dryRun: false and confirm: '${token}'.`,
+                ].join('\n\n'),
               },
             ],
           };
-        } else {
+        }
+
+        if (confirm !== token) {
+          throw new Error(
+            'Publishing requires the confirmation token from a dry run of this exact event. Run with dryRun: true first.'
+          );
+        }
+
+        const signer = await createSigner(CONFIG.publish ?? {}, pool);
+        try {
+          const event = await signer.signEvent(template);
+          const statuses = await publishEvent(pool, relays, event);
+          const accepted = statuses.filter((status) => status.ok).length;
+
           return {
             content: [
               {
                 type: 'text' as const,
-                text: `RSS feed '${name}' not found.`,
+                text: [
+                  `Published ${noteEncode(event.id)} to ${accepted} of ${statuses.length} relays:`,
+                  ...statuses.map(
+                    (status) =>
+                      `- ${status.relay}: ${status.ok ? 'accepted' : 'rejected'} (${status.message})`
+                  ),
+                ].join('\n'),
               },
             ],
           };
+        } finally {
+          await signer.close();
         }
       } catch (error) {
-        return handleToolError(error, 'Error removing RSS feed');
+        return handleToolError(error, 'Error publishing note');
+      }
+    }
+  );
+
+  // Configuration management tools
+  server.tool('get-config', 'Get the current configuration', {}, async () => {
+    try {
+      // Never echo signing keys or access tokens back to the client
+      const publish = CONFIG.publish?.secretKey
+        ? { ...CONFIG.publish, secretKey: '[redacted]' }
+        : CONFIG.publish;
+      const http = CONFIG.http?.authToken
+        ? { ...CONFIG.http, authToken: '[redacted]' }
+        : CONFIG.http;
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: JSON.stringify({ ...CONFIG, publish, http }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return handleToolError(error, 'Error retrieving configuration');
+    }
+  });
+
+  server.tool(
+    'import-opml',
+    'Import RSS/Atom/JSON feeds from OPML, mapping folders to feed groups',
+    {
+      opml: z.string().describe('OPML document contents'),
+    },
+    async ({ opml }) => {
+      try {
+        return {
+          content: [{ type: 'text' as const, text: await importOpml(opml) }],
+        };
+      } catch (error) {
+        return handleToolError(error, 'Error importing OPML');
+      }
+    }
+  );
+
+  server.tool(
+    'export-opml',
+    'Export configured RSS feeds as OPML, with feed groups as folders',
+    {},
+    async () => {
+      try {
+        return { content: [{ type: 'text' as const, text: exportOpml() }] };
+      } catch (error) {
+        return handleToolError(error, 'Error exporting OPML');
       }
     }
   );
 
-  const transport = new StdioServerTransport();
+  return server;
+}
+
+/**
+ * Start the server on stdio (the default) or HTTP, chosen with
+ * `--transport <stdio|http>` or MCP_TRANSPORT. `--run-job <name>` runs one
+ * scheduled job and exits; `--headless` runs the scheduler without MCP.
+ */
+async function startServer() {
+  const argv = process.argv.slice(2);
+  const transport =
+    readFlag(argv, 'transport') ?? process.env.MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport '${transport}'. Use stdio or http.`);
+  }
+
+  // Run one job and exit, for cron or CI
+  const jobName = readFlag(argv, 'run-job');
+  if (jobName !== undefined) {
+    if (!(CONFIG.scheduler ?? DEFAULT_SCHEDULER).jobs[jobName]) {
+      throw new Error(`Scheduled job '${jobName}' not found`);
+    }
+    // A failed run has already been logged by the scheduler
+    const run = await scheduler.run(jobName);
+    if (run.status === 'error') process.exit(1);
+    console.log([run.summary, ...run.outputs].join('\n'));
+    process.exit(0);
+  }
+
+  // Apply edits made outside the server; invalid edits keep the current config
+  configStore.watch(
+    (config) => {
+      CONFIG = config;
+      watchlists.sync(CONFIG.watchlists ?? {});
+      scheduler.sync();
+      console.error(`Reloaded configuration from ${configStore.path}`);
+    },
+    (error) => console.error(`Ignoring config change: ${error.message}`)
+  );
+
+  // Headless mode runs scheduled jobs without serving MCP
+  if (argv.includes('--headless')) {
+    scheduler.sync();
+    const active = scheduler.status().filter((job) => job.nextRun);
+    console.error(`Scheduler running headless with ${active.length} job(s)`);
+    return;
+  }
+
   console.error('Nostr MCP server starting...');
-  await server.connect(transport);
+  if (transport === 'http') {
+    const http = CONFIG.http ?? DEFAULT_HTTP;
+    const portValue = readFlag(argv, 'port') ?? process.env.PORT;
+    const port = portValue === undefined ? http.port : Number(portValue);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid port '${portValue}'`);
+    }
+
+    await startHttpServer(
+      {
+        port,
+        host: http.host,
+        authToken: process.env.MCP_AUTH_TOKEN || http.authToken || undefined,
+        corsOrigins: http.corsOrigins,
+        allowedHosts: http.allowedHosts,
+      },
+      createMcpServer
+    );
+    console.error(`Nostr MCP server listening on http://${http.host}:${port}`);
+  } else {
+    await createMcpServer().connect(new StdioServerTransport());
+  }
+  // Start watching once clients can connect, so new matches can be announced
+  watchlists.sync(CONFIG.watchlists ?? {});
+  scheduler.sync();
   console.error('Nostr MCP server started. Waiting for requests...');
 }
 
@@ -0,0 +1,280 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import { getPow } from 'nostr-tools/nip13';
+
+export type ContentWarningMode = 'hide' | 'flag' | 'show';
+
+export type ModerationReason =
+  | 'muted author'
+  | 'muted event'
+  | 'muted word'
+  | 'muted hashtag'
+  | 'muted domain'
+  | 'duplicate content'
+  | 'too many mentions'
+  | 'too many links'
+  | 'content warning'
+  | 'low proof of work';
+
+/**
+ * Public entries of a NIP-51 mute list (kind 10000). Private entries are
+ * encrypted to the owner and are not read.
+ */
+export interface MuteList {
+  pubkeys: string[];
+  eventIds: string[];
+  hashtags: string[];
+  words: string[];
+}
+
+export interface SpamRules {
+  /** Drop notes repeating the content of a note earlier in the result */
+  duplicates: boolean;
+  maxMentions: number;
+  maxLinks: number;
+}
+
+export interface ModerationRules {
+  pubkeys: Set<string>;
+  eventIds: Set<string>;
+  words: string[];
+  hashtags: Set<string>;
+  domains: string[];
+  contentWarnings: ContentWarningMode;
+  /** Spam heuristics; left out for sources where they don't apply */
+  spam?: SpamRules;
+}
+
+/**
+ * The parts of an item moderation looks at
+ */
+export interface ModerationSubject {
+  id?: string;
+  pubkey?: string;
+  text: string;
+  links: string[];
+  hashtags: string[];
+  mentions: number;
+  /** NIP-36 reason; an empty string means a warning without a reason */
+  contentWarning?: string;
+}
+
+/**
+ * How many items were removed for each reason, and how many were kept with a
+ * content warning
+ */
+export interface ModerationReport {
+  removed: Partial<Record<ModerationReason, number>>;
+  flagged: number;
+}
+
+export const MUTE_LIST_KIND = 10000;
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
+const MENTION_PATTERN = /nostr:(?:npub|nprofile)1[02-9ac-hj-np-z]+/gi;
+const DUPLICATE_MIN_LENGTH = 20;
+
+/**
+ * Read the public entries of a NIP-51 mute list event
+ */
+export function parseMuteList(event: NostrEvent): MuteList {
+  const values = (name: string) =>
+    event.tags.filter((tag) => tag[0] === name && tag[1]).map((tag) => tag[1]!);
+
+  return {
+    pubkeys: values('p'),
+    eventIds: values('e'),
+    hashtags: values('t'),
+    words: values('word'),
+  };
+}
+
+/**
+ * Describe what a Nostr event contains for moderation: its links, hashtags,
+ * mentioned profiles and NIP-36 content warning
+ */
+export function eventSubject(event: NostrEvent): ModerationSubject {
+  const warning = event.tags.find((tag) => tag[0] === 'content-warning');
+  const mentioned = new Set([
+    ...event.tags.filter((tag) => tag[0] === 'p').map((tag) => tag[1]),
+    ...(event.content.match(MENTION_PATTERN) ?? []),
+  ]);
+
+  return {
+    id: event.id,
+    pubkey: event.pubkey,
+    text: event.content,
+    links: event.content.match(URL_PATTERN) ?? [],
+    hashtags: event.tags
+      .filter((tag) => tag[0] === 't' && tag[1])
+      .map((tag) => tag[1]!),
+    mentions: mentioned.size,
+    contentWarning: warning ? (warning[1] ?? '') : undefined,
+  };
+}
+
+/**
+ * NIP-13 proof-of-work difficulty of an event: the leading zero bits of its
+ * id, capped at the target committed in its `nonce` tag so a lucky hash
+ * doesn't count for more work than was done
+ */
+export function eventPow(event: NostrEvent): number {
+  const pow = getPow(event.id);
+  const target = Number(event.tags.find((tag) => tag[0] === 'nonce')?.[2]);
+  return Number.isInteger(target) && target >= 0 ? Math.min(pow, target) : pow;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether `text` contains `word` as a whole word or phrase, ignoring case
+ */
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(
+    `(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}($|[^\\p{L}\\p{N}])`,
+    'iu'
+  ).test(text);
+}
+
+/**
+ * Whether a link points at a muted domain or one of its subdomains
+ */
+function isMutedDomain(link: string, domains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(link).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return false;
+  }
+  return domains.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`)
+  );
+}
+
+/**
+ * Work out why an item should be removed, if at all. Duplicate detection uses
+ * `seenContent`, which collects the content of kept items.
+ */
+function removalReason(
+  subject: ModerationSubject,
+  rules: ModerationRules,
+  seenContent: Set<string>
+): ModerationReason | undefined {
+  if (subject.pubkey && rules.pubkeys.has(subject.pubkey)) {
+    return 'muted author';
+  }
+  if (subject.id && rules.eventIds.has(subject.id)) return 'muted event';
+  if (rules.words.some((word) => containsWord(subject.text, word))) {
+    return 'muted word';
+  }
+  if (
+    subject.hashtags.some((tag) => rules.hashtags.has(tag.toLowerCase())) ||
+    [...rules.hashtags].some((tag) => containsWord(subject.text, `#${tag}`))
+  ) {
+    return 'muted hashtag';
+  }
+  if (subject.links.some((link) => isMutedDomain(link, rules.domains))) {
+    return 'muted domain';
+  }
+  if (
+    subject.contentWarning !== undefined &&
+    rules.contentWarnings === 'hide'
+  ) {
+    return 'content warning';
+  }
+
+  if (rules.spam) {
+    if (subject.mentions > rules.spam.maxMentions) return 'too many mentions';
+    if (new Set(subject.links).size > rules.spam.maxLinks) {
+      return 'too many links';
+    }
+    if (rules.spam.duplicates) {
+      const normalized = subject.text.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (normalized.length >= DUPLICATE_MIN_LENGTH) {
+        if (seenContent.has(normalized)) return 'duplicate content';
+        seenContent.add(normalized);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Remove muted and spammy items, keeping their order. Items with a content
+ * warning are returned in `flagged` with the reason when the mode is 'flag'.
+ */
+export function moderate<T>(
+  items: T[],
+  toSubject: (item: T) => ModerationSubject,
+  rules: ModerationRules
+): { items: T[]; flagged: Map<T, string>; report: ModerationReport } {
+  const report: ModerationReport = { removed: {}, flagged: 0 };
+  const flagged = new Map<T, string>();
+  const seenContent = new Set<string>();
+
+  const kept = items.filter((item) => {
+    const subject = toSubject(item);
+    const reason = removalReason(subject, rules, seenContent);
+    if (reason) {
+      report.removed[reason] = (report.removed[reason] ?? 0) + 1;
+      return false;
+    }
+    if (
+      subject.contentWarning !== undefined &&
+      rules.contentWarnings === 'flag'
+    ) {
+      flagged.set(item, subject.contentWarning || 'unspecified');
+      report.flagged++;
+    }
+    return true;
+  });
+
+  return { items: kept, flagged, report };
+}
+
+/**
+ * Combine reports, e.g. for the pages of a merged result
+ */
+export function mergeReports(reports: ModerationReport[]): ModerationReport {
+  const merged: ModerationReport = { removed: {}, flagged: 0 };
+  for (const report of reports) {
+    for (const [reason, count] of Object.entries(report.removed)) {
+      const key = reason as ModerationReason;
+      merged.removed[key] = (merged.removed[key] ?? 0) + count;
+    }
+    merged.flagged += report.flagged;
+  }
+  return merged;
+}
+
+/**
+ * Summarize a report for a tool result, e.g. "Filtered 3 items: 2 muted
+ * author, 1 duplicate content". Returns undefined when nothing was filtered.
+ */
+export function describeModeration(
+  report: ModerationReport
+): string | undefined {
+  const removed = Object.entries(report.removed);
+  const total = removed.reduce((sum, [, count]) => sum + count, 0);
+  const lines: string[] = [];
+
+  if (total > 0) {
+    lines.push(
+      `Filtered ${total} item${total === 1 ? '' : 's'}: ` +
+        removed.map(([reason, count]) => `${count} ${reason}`).join(', ')
+    );
+  }
+  if (report.flagged > 0) {
+    lines.push(
+      report.flagged === 1
+        ? '1 item has a content warning'
+        : `${report.flagged} items have content warnings`
+    );
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import { renderItems, type OutputEntry } from './output';
+
+const entries: OutputEntry[] = [
+  {
+    item: {
+      date: '2024-05-10 08:00',
+      title: 'Relay notes',
+      author: 'alice',
+      content: 'Notes on running a relay.',
+      link: 'https://blog.example.com/relay',
+    },
+  },
+];
+
+describe('renderItems', () => {
+  test('adds the note and next cursor after the items', () => {
+    expect(
+      renderItems(entries, 'text', 'No items.', 'Muted 1 note.', {
+        nextCursor: 'abc',
+      })
+    ).toEndWith(
+      'https://blog.example.com/relay\n\nMuted 1 note.\n\nMore items available. Pass cursor "abc" to get the next page.'
+    );
+    expect(
+      renderItems(entries, 'markdown', 'No items.', undefined, {})
+    ).toEndWith('\n\n> No more items.');
+  });
+
+  test('keeps the paging footer on empty pages', () => {
+    expect(
+      renderItems([], 'text', 'No notes found.', 'Muted 3 notes.', {
+        nextCursor: 'abc',
+      })
+    ).toBe(
+      'No notes found.\n\nMuted 3 notes.\n\nMore items available. Pass cursor "abc" to get the next page.'
+    );
+    expect(renderItems([], 'text', 'No notes found.', undefined, {})).toBe(
+      'No notes found.\n\nNo more items.'
+    );
+    expect(renderItems([], 'text', 'No notes found.')).toBe('No notes found.');
+  });
+
+  test('always returns an items array and paging state in JSON', () => {
+    expect(
+      JSON.parse(renderItems([], 'json', 'No items.', undefined, {}))
+    ).toEqual({ items: [], hasMore: false, nextCursor: null });
+    expect(
+      JSON.parse(
+        renderItems(entries, 'json', 'No items.', undefined, {
+          nextCursor: 'abc',
+        })
+      )
+    ).toMatchObject({ hasMore: true, nextCursor: 'abc' });
+  });
+});
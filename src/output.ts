@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import type { PageInfo } from './pagination';
+import type { FormattedItem } from './sources';
+
+export type OutputFormat = 'text' | 'json' | 'markdown';
+
+export const outputSchema = {
+  output: z
+    .enum(['text', 'json', 'markdown'])
+    .optional()
+    .default('text')
+    .describe(
+      'Response format: plain text, JSON (items plus raw events or feed fields) or markdown'
+    ),
+};
+
+/**
+ * A normalized item with the source data it came from
+ */
+export interface OutputEntry {
+  item: FormattedItem;
+  raw?: unknown;
+}
+
+/**
+ * Format an item for display with consistent formatting
+ */
+export function formatItem(item: FormattedItem): string {
+  const parts = [`[${item.date}]${item.title ? ` ${item.title}` : ''}`];
+
+  if (item.author) {
+    parts.push(`Author: ${item.author}`);
+  }
+
+  if (item.metadata) {
+    for (const [key, value] of Object.entries(item.metadata)) {
+      if (value) {
+        const formattedKey = key.charAt(0).toUpperCase() + key.slice(1);
+        parts.push(`${formattedKey}: ${value}`);
+      }
+    }
+  }
+
+  if (item.content) {
+    parts.push(item.content);
+  }
+
+  if (item.link) {
+    parts.push(item.link);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Format a normalized item as a markdown section
+ */
+export function formatItemMarkdown(item: FormattedItem): string {
+  const heading = item.title
+    ? item.link
+      ? `### [${item.title}](${item.link})`
+      : `### ${item.title}`
+    : `### ${item.date}`;
+  const byline = [item.title ? item.date : '', item.author]
+    .filter(Boolean)
+    .join(' · ');
+  const parts = byline ? [heading, `*${byline}*`] : [heading];
+
+  const metadata = Object.entries(item.metadata ?? {}).filter(
+    ([, value]) => value
+  );
+  if (metadata.length > 0) {
+    parts.push(
+      metadata
+        .map(
+          ([key, value]) =>
+            `- **${key.charAt(0).toUpperCase() + key.slice(1)}:** ${value}`
+        )
+        .join('\n')
+    );
+  }
+
+  if (item.content) parts.push(item.content);
+  if (item.link && !item.title) parts.push(`<${item.link}>`);
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Serialize an entry for JSON output, keeping the raw source data
+ */
+export function toJsonItem({ item, raw }: OutputEntry) {
+  return raw === undefined ? item : { ...item, raw };
+}
+
+/**
+ * Describe how to continue a paged result
+ */
+function describePage(page: PageInfo): string {
+  return page.nextCursor
+    ? `More items available. Pass cursor "${page.nextCursor}" to get the next page.`
+    : 'No more items.';
+}
+
+/**
+ * Render entries in the requested format, with paging state when the source
+ * supports it. JSON output always returns an object with an `items` array,
+ * even when nothing was found.
+ */
+export function renderItems(
+  entries: OutputEntry[],
+  format: OutputFormat,
+  emptyMessage: string,
+  note?: string,
+  page?: PageInfo
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        items: entries.map(toJsonItem),
+        ...(note ? { note } : {}),
+        ...(page
+          ? { hasMore: !!page.nextCursor, nextCursor: page.nextCursor ?? null }
+          : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  // Keep the note and paging state when a page is empty, since the note may
+  // say why and later pages can still have items
+  const footer = [note, page && describePage(page)].filter(Boolean);
+  if (entries.length === 0) {
+    return [emptyMessage, ...footer].join('\n\n');
+  }
+
+  if (format === 'markdown') {
+    const text = entries
+      .map(({ item }) => formatItemMarkdown(item))
+      .join('\n\n---\n\n');
+    return [text, ...footer.map((line) => `> ${line}`)].join('\n\n');
+  }
+
+  const text = entries.map(({ item }) => formatItem(item)).join('\n\n');
+  return [text, ...footer].join('\n\n');
+}
@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'bun:test';
+import type { NostrEvent } from 'nostr-tools/pure';
+import {
+  applyNostrCursor,
+  createSnapshotStore,
+  decodeNostrCursor,
+  pageEvents,
+  type NostrCursor,
+} from './pagination';
+
+/**
+ * A kind 1 note; signatures aren't checked at this level
+ */
+function note(id: string, createdAt: number): NostrEvent {
+  return {
+    id,
+    pubkey: 'a'.repeat(64),
+    kind: 1,
+    created_at: createdAt,
+    tags: [],
+    content: id,
+    sig: '',
+  };
+}
+
+/**
+ * Page through events until no cursor is returned, collecting the ids of
+ * each page
+ */
+function pageAll(events: NostrEvent[], limit: number): string[][] {
+  const pages: string[][] = [];
+  let cursor: NostrCursor | undefined;
+  do {
+    const page = pageEvents(events, limit, cursor);
+    pages.push(page.events.map((event) => event.id));
+    cursor = page.nextCursor ? decodeNostrCursor(page.nextCursor) : undefined;
+  } while (cursor && pages.length < 10);
+  return pages;
+}
+
+describe('pageEvents', () => {
+  test('orders newest first and breaks same-second ties by id', () => {
+    const { events, nextCursor } = pageEvents(
+      [note('c', 100), note('d', 99), note('a', 100), note('b', 100)],
+      10
+    );
+    expect(events.map((event) => event.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(nextCursor).toBeUndefined();
+  });
+
+  test('continues after events sharing the last timestamp', () => {
+    const first = pageEvents(
+      [note('a', 100), note('b', 100), note('c', 100), note('d', 99)],
+      2
+    );
+    expect(first.events.map((event) => event.id)).toEqual(['a', 'b']);
+    expect(decodeNostrCursor(first.nextCursor!)).toEqual({
+      until: 100,
+      seen: ['a', 'b'],
+    });
+
+    // Relays return events at the cursor's timestamp again
+    const second = pageEvents(
+      [note('a', 100), note('b', 100), note('c', 100), note('d', 99)],
+      2,
+      decodeNostrCursor(first.nextCursor!)
+    );
+    expect(second.events.map((event) => event.id)).toEqual(['c', 'd']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  test('keeps earlier ids while a page stays within one second', () => {
+    const events = [
+      note('a', 100),
+      note('b', 100),
+      note('c', 100),
+      note('d', 99),
+      note('e', 98),
+    ];
+    expect(pageAll(events, 1)).toEqual([['a'], ['b'], ['c'], ['d'], ['e']]);
+    expect(pageAll(events, 2)).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+  });
+
+  test('drops events newer than the cursor', () => {
+    const { events } = pageEvents([note('new', 200), note('old', 90)], 5, {
+      until: 100,
+      seen: [],
+    });
+    expect(events.map((event) => event.id)).toEqual(['old']);
+  });
+});
+
+describe('applyNostrCursor', () => {
+  test('moves until to the cursor and asks for enough events', () => {
+    expect(applyNostrCursor({ kinds: [1] }, 10)).toEqual({
+      kinds: [1],
+      limit: 11,
+    });
+    expect(
+      applyNostrCursor({ kinds: [1], until: 150 }, 10, {
+        until: 100,
+        seen: ['a', 'b'],
+      })
+    ).toEqual({ kinds: [1], until: 100, limit: 13 });
+    expect(
+      applyNostrCursor({ until: 50 }, 10, { until: 100, seen: [] })
+    ).toEqual({ until: 50, limit: 11 });
+  });
+});
+
+describe('decodeNostrCursor', () => {
+  test('rejects malformed and foreign cursors', () => {
+    expect(() => decodeNostrCursor('not a cursor')).toThrow('Invalid cursor');
+    const snapshot = Buffer.from(
+      JSON.stringify({ type: 'snapshot', snapshot: 'x', offset: 1 })
+    ).toString('base64url');
+    expect(() => decodeNostrCursor(snapshot)).toThrow(
+      'Invalid cursor for this source'
+    );
+  });
+});
+
+describe('createSnapshotStore', () => {
+  test('pages through the list loaded for the first page', async () => {
+    const store = createSnapshotStore<number>();
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return [1, 2, 3, 4, 5];
+    };
+
+    const first = await store.page('feed', load, 2);
+    expect(first.items).toEqual([1, 2]);
+    const second = await store.page('feed', load, 2, first.nextCursor);
+    expect(second.items).toEqual([3, 4]);
+    const last = await store.page('feed', load, 2, second.nextCursor);
+    expect(last).toEqual({ items: [5] });
+    expect(loads).toBe(1);
+  });
+
+  test('rejects cursors from another source', async () => {
+    const store = createSnapshotStore<number>();
+    const { nextCursor } = await store.page('feed-a', async () => [1, 2], 1);
+
+    await expect(
+      store.page('feed-b', async () => [3, 4], 1, nextCursor)
+    ).rejects.toThrow('Invalid cursor for this source');
+  });
+
+  test('rejects expired cursors', async () => {
+    const store = createSnapshotStore<number>(0);
+    const { nextCursor } = await store.page('feed', async () => [1, 2], 1);
+
+    await expect(
+      store.page('feed', async () => [1, 2], 1, nextCursor)
+    ).rejects.toThrow('Cursor has expired');
+  });
+});
@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+
+/**
+ * Paging state returned alongside a page of items. A missing `nextCursor`
+ * means there are no more items.
+ */
+export interface PageInfo {
+  nextCursor?: string;
+}
+
+/**
+ * Continue a Nostr query at `until`, skipping events at that timestamp that
+ * were already returned, so same-second events aren't dropped
+ */
+export interface NostrCursor {
+  until: number;
+  seen: string[];
+}
+
+const SNAPSHOT_TTL = 30 * 60 * 1000;
+const MAX_SNAPSHOTS = 100;
+
+/**
+ * Encode a cursor as an opaque base64url token
+ */
+function encodeCursor(type: string, cursor: object): string {
+  return Buffer.from(JSON.stringify({ type, ...cursor })).toString('base64url');
+}
+
+/**
+ * Decode a cursor token, checking it was issued for this kind of source
+ */
+function decodeCursor(token: string, type: string): Record<string, unknown> {
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (
+    !cursor ||
+    typeof cursor !== 'object' ||
+    (cursor as { type?: unknown }).type !== type
+  ) {
+    throw new Error('Invalid cursor for this source');
+  }
+  return cursor as Record<string, unknown>;
+}
+
+/**
+ * Decode a cursor issued by `pageEvents`
+ */
+export function decodeNostrCursor(token: string): NostrCursor {
+  const { until, seen } = decodeCursor(token, 'nostr');
+  if (typeof until !== 'number' || !Array.isArray(seen)) {
+    throw new Error('Invalid cursor');
+  }
+  return { until, seen: seen.map(String) };
+}
+
+/**
+ * Narrow a filter to the cursor position. One extra event is requested so a
+ * full page can tell whether more events follow.
+ */
+export function applyNostrCursor(
+  filter: Filter,
+  limit: number,
+  cursor?: NostrCursor
+): Filter {
+  const until =
+    cursor && filter.until !== undefined
+      ? Math.min(filter.until, cursor.until)
+      : (cursor?.until ?? filter.until);
+
+  return {
+    ...filter,
+    ...(until !== undefined ? { until } : {}),
+    limit: limit + (cursor?.seen.length ?? 0) + 1,
+  };
+}
+
+/**
+ * Take one page of events, newest first with ids breaking timestamp ties,
+ * and build the cursor for the next page
+ */
+export function pageEvents(
+  events: NostrEvent[],
+  limit: number,
+  cursor?: NostrCursor
+): { events: NostrEvent[]; nextCursor?: string } {
+  const seen = new Set(cursor?.seen);
+  const remaining = events
+    .filter(
+      (event) =>
+        !seen.has(event.id) && (!cursor || event.created_at <= cursor.until)
+    )
+    .sort((a, b) => b.created_at - a.created_at || a.id.localeCompare(b.id));
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  if (remaining.length <= limit || !last) return { events: page };
+
+  const until = last.created_at;
+  const seenAtUntil = page
+    .filter((event) => event.created_at === until)
+    .map((event) => event.id);
+  if (cursor?.until === until) seenAtUntil.push(...cursor.seen);
+
+  return {
+    events: page,
+    nextCursor: encodeCursor('nostr', { until, seen: seenAtUntil }),
+  };
+}
+
+export interface SnapshotStore<T> {
+  page(
+    key: string,
+    load: () => Promise<T[]>,
+    limit: number,
+    cursor?: string
+  ): Promise<{ items: T[]; nextCursor?: string }>;
+}
+
+/**
+ * Create a store of item snapshots for offset paging. The first page loads
+ * and keeps the full list, so later pages are stable even if the feed changes.
+ * Each snapshot remembers the key of the query that made it, so a cursor
+ * can't continue a different source or search.
+ */
+export function createSnapshotStore<T>(
+  ttl: number = SNAPSHOT_TTL
+): SnapshotStore<T> {
+  const snapshots = new Map<
+    string,
+    { key: string; items: T[]; expiresAt: number }
+  >();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, snapshot] of snapshots) {
+      if (snapshot.expiresAt <= now) snapshots.delete(id);
+    }
+    // Maps iterate in insertion order, so the oldest snapshots go first
+    for (const id of snapshots.keys()) {
+      if (snapshots.size <= MAX_SNAPSHOTS) break;
+      snapshots.delete(id);
+    }
+  };
+
+  return {
+    async page(key, load, limit, token) {
+      prune();
+
+      let id: string;
+      let offset = 0;
+      let items: T[];
+      if (token) {
+        const cursor = decodeCursor(token, 'snapshot');
+        id = String(cursor.snapshot);
+        offset = Number(cursor.offset) || 0;
+        const snapshot = snapshots.get(id);
+        if (!snapshot) {
+          throw new Error(
+            'Cursor has expired. Fetch the first page again without a cursor.'
+          );
+        }
+        if (snapshot.key !== key) {
+          throw new Error('Invalid cursor for this source');
+        }
+        items = snapshot.items;
+      } else {
+        id = randomUUID();
+        items = await load();
+      }
+
+      const end = offset + limit;
+      if (end >= items.length) return { items: items.slice(offset) };
+
+      snapshots.set(id, { key, items, expiresAt: Date.now() + ttl });
+      return {
+        items: items.slice(offset, end),
+        nextCursor: encodeCursor('snapshot', { snapshot: id, offset: end }),
+      };
+    },
+  };
+}
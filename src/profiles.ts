@@ -0,0 +1,99 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+
+export interface Profile {
+  pubkey: string;
+  name?: string;
+  displayName?: string;
+  nip05?: string;
+}
+
+export interface ProfileCache {
+  load(relays: string[], pubkeys: string[]): Promise<void>;
+  get(pubkey: string): Profile | undefined;
+}
+
+type QueryFunction = (
+  relays: string[],
+  filter: Filter
+) => Promise<NostrEvent[]>;
+
+const DEFAULT_PROFILE_TTL = 15 * 60 * 1000;
+const AUTHORS_PER_FILTER = 100;
+
+/**
+ * Parse kind 0 metadata content into a profile, ignoring malformed JSON
+ */
+function parseProfile(event: NostrEvent): Profile {
+  try {
+    const metadata = JSON.parse(event.content) as Record<string, unknown>;
+    const text = (value: unknown) =>
+      typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    return {
+      pubkey: event.pubkey,
+      name: text(metadata.name),
+      displayName: text(metadata.display_name) ?? text(metadata.displayName),
+      nip05: text(metadata.nip05),
+    };
+  } catch {
+    return { pubkey: event.pubkey };
+  }
+}
+
+/**
+ * Create an in-memory cache of kind 0 profiles that batch-fetches missing or
+ * expired entries. Authors without a profile are cached too, so they are not
+ * queried again until the TTL expires.
+ */
+export function createProfileCache(
+  query: QueryFunction,
+  ttl: number = DEFAULT_PROFILE_TTL
+): ProfileCache {
+  const cache = new Map<
+    string,
+    { profile: Profile | undefined; expiresAt: number }
+  >();
+
+  return {
+    async load(relays, pubkeys) {
+      const now = Date.now();
+      const missing = [...new Set(pubkeys)].filter(
+        (pubkey) => (cache.get(pubkey)?.expiresAt ?? 0) <= now
+      );
+      if (missing.length === 0) return;
+
+      const batches: string[][] = [];
+      for (let i = 0; i < missing.length; i += AUTHORS_PER_FILTER) {
+        batches.push(missing.slice(i, i + AUTHORS_PER_FILTER));
+      }
+
+      const results = await Promise.all(
+        batches.map((authors) =>
+          query(relays, { kinds: [0], authors, limit: authors.length })
+        )
+      );
+
+      const latest = new Map<string, NostrEvent>();
+      for (const event of results.flat()) {
+        const current = latest.get(event.pubkey);
+        if (!current || event.created_at > current.created_at) {
+          latest.set(event.pubkey, event);
+        }
+      }
+
+      const expiresAt = Date.now() + ttl;
+      for (const pubkey of missing) {
+        const event = latest.get(pubkey);
+        cache.set(pubkey, {
+          profile: event ? parseProfile(event) : undefined,
+          expiresAt,
+        });
+      }
+    },
+
+    get(pubkey) {
+      const entry = cache.get(pubkey);
+      return entry && entry.expiresAt > Date.now() ? entry.profile : undefined;
+    },
+  };
+}
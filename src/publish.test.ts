@@ -0,0 +1,286 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { SimplePool } from 'nostr-tools/pool';
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  verifyEvent,
+  type NostrEvent,
+} from 'nostr-tools/pure';
+import { matchFilters, type Filter } from 'nostr-tools/filter';
+import { nsecEncode } from 'nostr-tools/nip19';
+import { decrypt, encrypt, getConversationKey } from 'nostr-tools/nip44';
+import type { ServerWebSocket } from 'bun';
+import {
+  buildEventTemplate,
+  confirmationToken,
+  createSigner,
+  publishEvent,
+} from './publish';
+
+const NOSTR_CONNECT_KIND = 24133;
+
+const userSecret = generateSecretKey();
+const userPubkey = getPublicKey(userSecret);
+const bunkerSecret = generateSecretKey();
+const bunkerPubkey = getPublicKey(bunkerSecret);
+
+type Socket = ServerWebSocket<{
+  path: string;
+  subscriptions: Map<string, Filter[]>;
+}>;
+const sockets = new Set<Socket>();
+
+/**
+ * Send an event to every open subscription it matches
+ */
+function broadcast(event: NostrEvent): void {
+  for (const socket of sockets) {
+    for (const [id, filters] of socket.data.subscriptions) {
+      if (matchFilters(filters, event)) {
+        socket.send(JSON.stringify(['EVENT', id, event]));
+      }
+    }
+  }
+}
+
+/**
+ * Answer a NIP-46 request the way a remote signer holding `userSecret` would
+ */
+function answerBunkerRequest(request: NostrEvent): void {
+  const conversationKey = getConversationKey(bunkerSecret, request.pubkey);
+  const { id, method, params } = JSON.parse(
+    decrypt(request.content, conversationKey)
+  ) as { id: string; method: string; params: string[] };
+
+  const result =
+    method === 'connect'
+      ? 'ack'
+      : method === 'get_public_key'
+        ? userPubkey
+        : method === 'sign_event'
+          ? JSON.stringify(finalizeEvent(JSON.parse(params[0]!), userSecret))
+          : undefined;
+  broadcast(
+    finalizeEvent(
+      {
+        kind: NOSTR_CONNECT_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [['p', request.pubkey]],
+        content: encrypt(
+          JSON.stringify(
+            result ? { id, result } : { id, error: 'unsupported' }
+          ),
+          conversationKey
+        ),
+      },
+      bunkerSecret
+    )
+  );
+}
+
+// `/accept` stores and forwards events and hosts the remote signer;
+// `/reject` refuses every event
+const server = Bun.serve<Socket['data'], undefined>({
+  port: 0,
+  fetch(request, server) {
+    const path = new URL(request.url).pathname;
+    if (server.upgrade(request, { data: { path, subscriptions: new Map() } })) {
+      return undefined;
+    }
+    return new Response('Upgrade required', { status: 426 });
+  },
+  websocket: {
+    open: (socket) => void sockets.add(socket),
+    close: (socket) => void sockets.delete(socket),
+    message(socket, message) {
+      const [type, ...rest] = JSON.parse(String(message));
+      if (type === 'REQ') {
+        const [id, ...filters] = rest as [string, ...Filter[]];
+        socket.data.subscriptions.set(id, filters);
+        socket.send(JSON.stringify(['EOSE', id]));
+      } else if (type === 'CLOSE') {
+        socket.data.subscriptions.delete(rest[0]);
+      } else if (type === 'EVENT') {
+        const event = rest[0] as NostrEvent;
+        if (socket.data.path === '/reject') {
+          socket.send(
+            JSON.stringify(['OK', event.id, false, 'blocked: not allowed'])
+          );
+          return;
+        }
+        socket.send(JSON.stringify(['OK', event.id, true, '']));
+        if (
+          event.kind === NOSTR_CONNECT_KIND &&
+          event.tags.some((tag) => tag[0] === 'p' && tag[1] === bunkerPubkey)
+        ) {
+          answerBunkerRequest(event);
+        } else {
+          broadcast(event);
+        }
+      }
+    },
+  },
+});
+
+const relay = (path: string) => `ws://localhost:${server.port}${path}`;
+const pool = new SimplePool();
+
+afterAll(() => {
+  pool.destroy();
+  server.stop(true);
+});
+
+describe('buildEventTemplate', () => {
+  test('builds a short note with hashtags', () => {
+    expect(
+      buildEventTemplate(
+        { kind: 1, content: 'hello', hashtags: ['#Nostr', 'zaps', '#'] },
+        1700000000
+      )
+    ).toEqual({
+      kind: 1,
+      content: 'hello',
+      tags: [
+        ['t', 'nostr'],
+        ['t', 'zaps'],
+      ],
+      created_at: 1700000000,
+    });
+  });
+
+  test('adds NIP-23 tags to articles', () => {
+    const template = buildEventTemplate(
+      {
+        kind: 30023,
+        content: '# Body',
+        title: 'Hello, World!',
+        summary: 'A first post',
+      },
+      1700000000
+    );
+    expect(template.tags).toEqual([
+      ['d', 'hello-world'],
+      ['title', 'Hello, World!'],
+      ['summary', 'A first post'],
+      ['published_at', '1700000000'],
+    ]);
+  });
+
+  test('derives a stable identifier for untitled articles', () => {
+    const identifier = (content: string, title?: string, createdAt = 1) =>
+      buildEventTemplate({ kind: 30023, content, title }, createdAt)
+        .tags[0]![1]!;
+
+    expect(identifier('first')).toEqual(identifier('first', '?!', 2));
+    expect(identifier('first')).not.toEqual(identifier('second'));
+    expect(identifier('first')).toMatch(/^[0-9a-f]{12}$/);
+    expect(
+      buildEventTemplate({ kind: 30023, content: 'x', identifier: 'my-post' })
+        .tags[0]
+    ).toEqual(['d', 'my-post']);
+  });
+});
+
+describe('confirmationToken', () => {
+  test('matches between a dry run and a later publish of the same draft', () => {
+    for (const draft of [
+      { kind: 1 as const, content: 'note' },
+      { kind: 30023 as const, content: 'untitled article' },
+      { kind: 30023 as const, content: 'article', title: '...' },
+    ]) {
+      expect(confirmationToken(buildEventTemplate(draft, 1700000000))).toBe(
+        confirmationToken(buildEventTemplate(draft, 1700000600))
+      );
+    }
+  });
+
+  test('changes when the content or tags change', () => {
+    const token = (draft: Parameters<typeof buildEventTemplate>[0]) =>
+      confirmationToken(buildEventTemplate(draft, 1700000000));
+
+    const base = token({ kind: 1, content: 'note' });
+    expect(token({ kind: 1, content: 'note!' })).not.toBe(base);
+    expect(token({ kind: 1, content: 'note', hashtags: ['x'] })).not.toBe(base);
+    expect(token({ kind: 30023, content: 'note' })).not.toBe(base);
+  });
+});
+
+describe('createSigner', () => {
+  test('signs with a local nsec key', async () => {
+    const signer = await createSigner(
+      { secretKey: nsecEncode(userSecret) },
+      pool
+    );
+    const event = await signer.signEvent(
+      buildEventTemplate({ kind: 1, content: 'local' })
+    );
+
+    expect(await signer.getPublicKey()).toBe(userPubkey);
+    expect(event.pubkey).toBe(userPubkey);
+    expect(verifyEvent(event)).toBe(true);
+  });
+
+  test('signs through a NIP-46 remote signer', async () => {
+    const signer = await createSigner(
+      {
+        bunker: `bunker://${bunkerPubkey}?relay=${encodeURIComponent(relay('/accept'))}`,
+      },
+      pool
+    );
+    try {
+      const event = await signer.signEvent(
+        buildEventTemplate({ kind: 1, content: 'remote' })
+      );
+
+      expect(await signer.getPublicKey()).toBe(userPubkey);
+      expect(event.pubkey).toBe(userPubkey);
+      expect(event.content).toBe('remote');
+      expect(verifyEvent(event)).toBe(true);
+    } finally {
+      await signer.close();
+    }
+  });
+
+  test('requires a key or a bunker', async () => {
+    await expect(createSigner({}, pool)).rejects.toThrow(
+      'No signing key configured'
+    );
+    await expect(
+      createSigner({ secretKey: 'npub1xyz' }, pool)
+    ).rejects.toThrow();
+  });
+});
+
+describe('publishEvent', () => {
+  test('reports the outcome on each relay', async () => {
+    const event = finalizeEvent(
+      buildEventTemplate({ kind: 1, content: 'publish me' }),
+      userSecret
+    );
+
+    const statuses = await publishEvent(
+      pool,
+      [relay('/accept'), relay('/reject'), relay('/accept')],
+      event
+    );
+
+    expect(statuses).toEqual([
+      { relay: relay('/accept'), ok: true, message: 'accepted' },
+      {
+        relay: relay('/reject'),
+        ok: false,
+        message: 'blocked: not allowed',
+      },
+    ]);
+  });
+
+  test('reports relays that cannot be reached', async () => {
+    const event = finalizeEvent(
+      buildEventTemplate({ kind: 1, content: 'unreachable' }),
+      userSecret
+    );
+    const [status] = await publishEvent(pool, ['ws://127.0.0.1:1'], event);
+    expect(status).toMatchObject({ relay: 'ws://127.0.0.1:1', ok: false });
+  });
+});
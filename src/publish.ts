@@ -0,0 +1,185 @@
+import { createHash } from 'crypto';
+import type { SimplePool } from 'nostr-tools/pool';
+import {
+  finalizeEvent,
+  generateSecretKey,
+  getPublicKey,
+  type EventTemplate,
+  type NostrEvent,
+} from 'nostr-tools/pure';
+import { decode } from 'nostr-tools/nip19';
+import { BunkerSigner, parseBunkerInput } from 'nostr-tools/nip46';
+
+export interface SignerConfig {
+  /** nsec or hex secret key used to sign locally */
+  secretKey?: string;
+  /** bunker:// URI or NIP-05 name of a NIP-46 remote signer */
+  bunker?: string;
+}
+
+export interface Signer {
+  getPublicKey(): Promise<string>;
+  signEvent(template: EventTemplate): Promise<NostrEvent>;
+  close(): Promise<void>;
+}
+
+export interface NoteDraft {
+  kind: 1 | 30023;
+  content: string;
+  hashtags?: string[];
+  /** Long-form (kind 30023) only */
+  title?: string;
+  summary?: string;
+  identifier?: string;
+}
+
+export interface PublishStatus {
+  relay: string;
+  ok: boolean;
+  message: string;
+}
+
+type PublishPool = Pick<SimplePool, 'publish'>;
+
+const HEX_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Decode an nsec or hex secret key
+ */
+function parseSecretKey(secretKey: string): Uint8Array {
+  const key = secretKey.trim();
+  if (HEX_KEY_PATTERN.test(key)) {
+    return Uint8Array.from(Buffer.from(key, 'hex'));
+  }
+
+  const decoded = decode(key);
+  if (decoded.type !== 'nsec') {
+    throw new Error('Signing key must be an nsec or a 64-character hex key');
+  }
+  return decoded.data;
+}
+
+/**
+ * Create a signer from config: a local secret key, or a NIP-46 remote signer
+ * reached through the pool
+ */
+export async function createSigner(
+  config: SignerConfig,
+  pool: SimplePool
+): Promise<Signer> {
+  if (config.secretKey) {
+    const secretKey = parseSecretKey(config.secretKey);
+    return {
+      getPublicKey: async () => getPublicKey(secretKey),
+      signEvent: async (template) => finalizeEvent(template, secretKey),
+      close: async () => {},
+    };
+  }
+
+  if (config.bunker) {
+    const pointer = await parseBunkerInput(config.bunker);
+    if (!pointer) {
+      throw new Error(`'${config.bunker}' is not a valid NIP-46 bunker`);
+    }
+    const bunker = new BunkerSigner(generateSecretKey(), pointer, { pool });
+    await bunker.connect();
+    return {
+      getPublicKey: () => bunker.getPublicKey(),
+      signEvent: (template) => bunker.signEvent(template),
+      close: () => bunker.close(),
+    };
+  }
+
+  throw new Error(
+    'No signing key configured. Set publish.secretKey or publish.bunker in the config.'
+  );
+}
+
+/**
+ * The `d` identifier of an article: the given identifier, a slug of the
+ * title, or a short hash of the content. It never depends on the time, so
+ * the same draft always addresses the same article.
+ */
+function articleIdentifier(draft: NoteDraft): string {
+  if (draft.identifier?.trim()) return draft.identifier.trim();
+  const slug = (draft.title ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-|-$/g, '');
+  return (
+    slug ||
+    createHash('sha256').update(draft.content).digest('hex').slice(0, 12)
+  );
+}
+
+/**
+ * Build an unsigned event from a draft. Long-form notes get NIP-23 `d`,
+ * `title`, `summary` and `published_at` tags.
+ */
+export function buildEventTemplate(
+  draft: NoteDraft,
+  createdAt: number = Math.floor(Date.now() / 1000)
+): EventTemplate {
+  const tags: string[][] = [];
+
+  if (draft.kind === 30023) {
+    tags.push(['d', articleIdentifier(draft)]);
+    if (draft.title) tags.push(['title', draft.title]);
+    if (draft.summary) tags.push(['summary', draft.summary]);
+    tags.push(['published_at', String(createdAt)]);
+  }
+
+  for (const hashtag of draft.hashtags ?? []) {
+    const tag = hashtag.replace(/^#/, '').toLowerCase();
+    if (tag) tags.push(['t', tag]);
+  }
+
+  return {
+    kind: draft.kind,
+    content: draft.content,
+    tags,
+    created_at: createdAt,
+  };
+}
+
+/**
+ * Token identifying an event's kind, content and tags. Publishing requires
+ * the token from a dry run, so only a previewed event can be sent.
+ */
+export function confirmationToken(template: EventTemplate): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        template.kind,
+        template.content,
+        template.tags.filter((tag) => tag[0] !== 'published_at'),
+      ])
+    )
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Publish a signed event to each relay and report whether it was accepted
+ */
+export async function publishEvent(
+  pool: PublishPool,
+  relays: string[],
+  event: NostrEvent
+): Promise<PublishStatus[]> {
+  const unique = [...new Set(relays)];
+  const results = await Promise.allSettled(pool.publish(unique, event));
+
+  return unique.map((relay, index) => {
+    const result = results[index];
+    if (result?.status === 'fulfilled') {
+      return { relay, ok: true, message: result.value || 'accepted' };
+    }
+    const reason = result?.reason;
+    return {
+      relay,
+      ok: false,
+      message: reason instanceof Error ? reason.message : String(reason),
+    };
+  });
+}
@@ -0,0 +1,197 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { AbstractSimplePool } from 'nostr-tools/abstract-pool';
+import {
+  finalizeEvent,
+  generateSecretKey,
+  type NostrEvent,
+  type VerifiedEvent,
+} from 'nostr-tools/pure';
+import {
+  createRelayHealthTracker,
+  queryRelay,
+  queryRelays,
+  type RelayQueryStatus,
+} from './relays';
+
+const secretKey = generateSecretKey();
+const note = (content: string) =>
+  finalizeEvent(
+    { kind: 1, created_at: 1700000000, tags: [], content },
+    secretKey
+  );
+const shared = note('seen on every relay');
+const onlyFast = note('only on the fast relay');
+const forged = { ...note('forged'), content: 'changed after signing' };
+
+// Each path behaves like a different relay
+const behaviors: Record<
+  string,
+  (send: (message: unknown[]) => void, subscription: string) => void
+> = {
+  '/fast': (send, id) => {
+    send(['EVENT', id, shared]);
+    send(['EVENT', id, onlyFast]);
+    send(['EOSE', id]);
+  },
+  // Sends what it has, then never finishes
+  '/slow': (send, id) => send(['EVENT', id, shared]),
+  '/closing': (send, id) => send(['CLOSED', id, 'error: shutting down']),
+  '/forging': (send, id) => {
+    send(['EVENT', id, forged]);
+    send(['EVENT', id, shared]);
+    send(['EOSE', id]);
+  },
+};
+
+const server = Bun.serve<{ path: string }, undefined>({
+  port: 0,
+  fetch(request, server) {
+    const path = new URL(request.url).pathname;
+    if (server.upgrade(request, { data: { path } })) return undefined;
+    return new Response('Upgrade required', { status: 426 });
+  },
+  websocket: {
+    message(ws, message) {
+      const [type, id] = JSON.parse(String(message));
+      if (type !== 'REQ') return;
+      behaviors[ws.data.path]?.((reply) => ws.send(JSON.stringify(reply)), id);
+    },
+  },
+});
+
+const relay = (path: string) => `ws://localhost:${server.port}${path}`;
+
+// As in the server, the pool doesn't verify so invalid events can be counted
+const pool = new AbstractSimplePool({
+  verifyEvent: (event): event is VerifiedEvent => true,
+  websocketImplementation: WebSocket,
+});
+
+afterAll(() => {
+  pool.destroy();
+  server.stop(true);
+});
+
+describe('queryRelay', () => {
+  test('resolves on EOSE with the events received', async () => {
+    const { events, status } = await queryRelay(
+      pool,
+      relay('/fast'),
+      { kinds: [1] },
+      2000
+    );
+
+    expect(events.map((event) => event.id)).toEqual([shared.id, onlyFast.id]);
+    expect(status).toMatchObject({
+      ok: true,
+      eose: true,
+      events: 2,
+      invalid: 0,
+    });
+  });
+
+  test('keeps events received before a timeout', async () => {
+    const { events, status } = await queryRelay(
+      pool,
+      relay('/slow'),
+      { kinds: [1] },
+      300
+    );
+
+    expect(events.map((event) => event.id)).toEqual([shared.id]);
+    expect(status).toMatchObject({
+      ok: false,
+      eose: false,
+      events: 1,
+      error: 'timed out after 300ms',
+    });
+    expect(status.latency).toBeGreaterThanOrEqual(300);
+  });
+
+  test('reports a relay that closes the subscription', async () => {
+    const { events, status } = await queryRelay(
+      pool,
+      relay('/closing'),
+      { kinds: [1] },
+      2000
+    );
+
+    expect(events).toEqual([]);
+    expect(status.ok).toBe(false);
+    expect(status.error).toContain('shutting down');
+  });
+
+  test('drops and counts events that fail verification', async () => {
+    const { events, status } = await queryRelay(
+      pool,
+      relay('/forging'),
+      { kinds: [1] },
+      2000
+    );
+
+    expect(events.map((event) => event.id)).toEqual([shared.id]);
+    expect(status).toMatchObject({ ok: true, events: 1, invalid: 1 });
+  });
+});
+
+describe('queryRelays', () => {
+  test('merges partial results and records where each event was seen', async () => {
+    const timeouts: Record<string, number> = { [relay('/slow')]: 300 };
+    const result = await queryRelays(
+      pool,
+      [relay('/fast'), relay('/slow'), relay('/closing'), relay('/fast')],
+      { kinds: [1] },
+      (url) => timeouts[url] ?? 2000
+    );
+
+    const ids = result.events.map((event: NostrEvent) => event.id);
+    expect(ids.sort()).toEqual([shared.id, onlyFast.id].sort());
+    expect(result.seenOn.get(shared.id)).toEqual([
+      relay('/fast'),
+      relay('/slow'),
+    ]);
+    expect(result.seenOn.get(onlyFast.id)).toEqual([relay('/fast')]);
+    expect(result.relays.map((status) => [status.relay, status.ok])).toEqual([
+      [relay('/fast'), true],
+      [relay('/slow'), false],
+      [relay('/closing'), false],
+    ]);
+  });
+});
+
+describe('createRelayHealthTracker', () => {
+  const status = (
+    overrides: Partial<RelayQueryStatus> = {}
+  ): RelayQueryStatus => ({
+    relay: 'wss://relay.example',
+    ok: true,
+    eose: true,
+    events: 1,
+    invalid: 0,
+    latency: 100,
+    ...overrides,
+  });
+
+  test('tracks success rate, latency, invalid events and the last error', () => {
+    const tracker = createRelayHealthTracker();
+    tracker.record(status({ latency: 100 }));
+    tracker.record(
+      status({ ok: false, latency: 400, invalid: 2, error: 'timed out' })
+    );
+    tracker.record(status({ relay: 'wss://other.example', latency: 50 }));
+
+    const [relayHealth, other] = tracker.report();
+    expect(relayHealth).toMatchObject({
+      relay: 'wss://relay.example',
+      queries: 2,
+      successes: 1,
+      averageLatency: 250,
+      lastLatency: 400,
+      invalidEvents: 2,
+      lastError: 'timed out',
+    });
+    expect(relayHealth?.lastErrorAt).toBeNumber();
+    expect(other).toMatchObject({ queries: 1, successes: 1 });
+    expect(other?.lastError).toBeUndefined();
+  });
+});
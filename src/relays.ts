@@ -0,0 +1,172 @@
+import type { SimplePool } from 'nostr-tools/pool';
+import { verifyEvent, type NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+
+export interface RelayQueryStatus {
+  relay: string;
+  ok: boolean;
+  eose: boolean;
+  events: number;
+  /** Events dropped because their id or signature didn't verify */
+  invalid: number;
+  latency: number;
+  error?: string;
+}
+
+export interface RelayQueryResult {
+  events: NostrEvent[];
+  relays: RelayQueryStatus[];
+  /** Relays each event was received from, keyed by event id */
+  seenOn: Map<string, string[]>;
+}
+
+export interface RelayHealth {
+  relay: string;
+  queries: number;
+  successes: number;
+  averageLatency: number;
+  lastLatency: number;
+  invalidEvents: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+export interface RelayHealthTracker {
+  record(status: RelayQueryStatus): void;
+  report(): RelayHealth[];
+}
+
+type SubscribePool = Pick<SimplePool, 'subscribeMany'>;
+
+/**
+ * Query a single relay, resolving on EOSE, close or timeout. Events received
+ * before a timeout are kept, so a slow relay still contributes what it sent.
+ * Events that fail `verifyEvent` are dropped and counted; the pool should not
+ * verify them itself, or they would be dropped silently.
+ */
+export function queryRelay(
+  pool: SubscribePool,
+  relay: string,
+  filter: Filter,
+  timeout: number
+): Promise<{ events: NostrEvent[]; status: RelayQueryStatus }> {
+  const started = Date.now();
+  const events: NostrEvent[] = [];
+  let invalid = 0;
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let subscription: { close: () => void } | undefined;
+    const finish = (eose: boolean, error?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      subscription?.close();
+      resolve({
+        events,
+        status: {
+          relay,
+          ok: eose,
+          eose,
+          events: events.length,
+          invalid,
+          latency: Date.now() - started,
+          error,
+        },
+      });
+    };
+
+    const timer = setTimeout(
+      () => finish(false, `timed out after ${timeout}ms`),
+      timeout
+    );
+
+    // maxWait is set past our own timer so the pool's EOSE timeout never
+    // reports a slow relay as having finished. The pool also signals EOSE
+    // right before a close, so EOSE is deferred to let the close win.
+    subscription = pool.subscribeMany([relay], [filter], {
+      maxWait: timeout * 2,
+      onevent: (event) => {
+        if (verifyEvent(event)) events.push(event);
+        else invalid++;
+      },
+      oneose: () => queueMicrotask(() => finish(true)),
+      onclose: (reasons) => finish(false, reasons[0] || 'connection closed'),
+    });
+    if (settled) subscription.close();
+  });
+}
+
+/**
+ * Query each relay separately with its own timeout and merge the results,
+ * deduplicating events by id and recording which relays returned each one
+ */
+export async function queryRelays(
+  pool: SubscribePool,
+  relays: string[],
+  filter: Filter,
+  timeoutFor: (relay: string) => number
+): Promise<RelayQueryResult> {
+  const results = await Promise.all(
+    [...new Set(relays)].map((relay) =>
+      queryRelay(pool, relay, filter, timeoutFor(relay))
+    )
+  );
+
+  const events = new Map<string, NostrEvent>();
+  const seenOn = new Map<string, string[]>();
+  for (const result of results) {
+    for (const event of result.events) {
+      if (!events.has(event.id)) events.set(event.id, event);
+      const relays = seenOn.get(event.id) ?? [];
+      if (!relays.includes(result.status.relay)) {
+        seenOn.set(event.id, [...relays, result.status.relay]);
+      }
+    }
+  }
+
+  return {
+    events: [...events.values()],
+    relays: results.map((result) => result.status),
+    seenOn,
+  };
+}
+
+/**
+ * Track per-relay latency, success rate and last error over the session
+ */
+export function createRelayHealthTracker(): RelayHealthTracker {
+  const stats = new Map<string, RelayHealth & { totalLatency: number }>();
+
+  return {
+    record(status) {
+      const entry = stats.get(status.relay) ?? {
+        relay: status.relay,
+        queries: 0,
+        successes: 0,
+        averageLatency: 0,
+        lastLatency: 0,
+        invalidEvents: 0,
+        totalLatency: 0,
+      };
+
+      entry.queries++;
+      entry.totalLatency += status.latency;
+      entry.averageLatency = Math.round(entry.totalLatency / entry.queries);
+      entry.lastLatency = status.latency;
+      entry.invalidEvents += status.invalid;
+      if (status.ok) {
+        entry.successes++;
+      } else {
+        entry.lastError = status.error;
+        entry.lastErrorAt = Date.now();
+      }
+
+      stats.set(status.relay, entry);
+    },
+
+    report() {
+      return [...stats.values()].map(({ totalLatency, ...health }) => health);
+    },
+  };
+}
@@ -0,0 +1,358 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ScheduledJob } from './config';
+
+/**
+ * A parsed five-field cron expression (minute hour day-of-month month
+ * day-of-week), evaluated in the server's local time
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether day-of-month / day-of-week were `*` */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+export type JobStatus = 'running' | 'ok' | 'error';
+
+export interface JobRun {
+  startedAt: number;
+  finishedAt?: number;
+  status: JobStatus;
+  error?: string;
+  /** Files written by the run */
+  outputs: string[];
+  summary?: string;
+}
+
+export interface JobResult {
+  outputs: string[];
+  summary: string;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  job: ScheduledJob;
+  nextRun?: number;
+  lastRun?: JobRun;
+}
+
+export interface Scheduler {
+  /** Start, restart or stop timers so they match the configured jobs */
+  sync(): void;
+  /** Run a job now. A job that is already running is not started twice. */
+  run(name: string): Promise<JobRun>;
+  status(): ScheduledJobStatus[];
+  stop(): void;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+const MONTH_NAMES = 'jan feb mar apr may jun jul aug sep oct nov dec'.split(
+  ' '
+);
+const WEEKDAY_NAMES = 'sun mon tue wed thu fri sat'.split(' ');
+
+// setTimeout can't wait longer than this; longer delays are re-armed
+const MAX_TIMEOUT = 2 ** 31 - 1;
+// Give up looking for a matching time after this many years (e.g. Feb 30)
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse one cron field: `*`, numbers, names, ranges, lists and `/step`
+ */
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = []
+): Set<number> {
+  const value = (text: string) => {
+    const index = names.indexOf(text.toLowerCase());
+    const number = index >= 0 ? index + min : Number(text);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`'${text}' is out of range ${min}-${max}`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step in '${part}'`);
+    }
+
+    let [start, end] = [min, max];
+    if (range !== '*') {
+      const [from = '', to] = range.split('-');
+      start = value(from);
+      // `5/15` means every 15 from 5, like `5-max/15`
+      end = to !== undefined ? value(to) : stepText ? max : start;
+    }
+    if (start > end) throw new Error(`invalid range '${range}'`);
+    for (let n = start; n <= end; n += step) values.add(n);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression such as `0 7 * * 1-5` or a macro such as `@daily`
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (CRON_MACROS[expression.trim().toLowerCase()] ?? expression)
+    .trim()
+    .split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression '${expression}': expected 5 fields`
+    );
+  }
+
+  try {
+    const [minute, hour, day, month, weekday] = fields as [
+      string,
+      string,
+      string,
+      string,
+      string,
+    ];
+    const weekdays = parseField(weekday, 0, 7, WEEKDAY_NAMES);
+    // Both 0 and 7 mean Sunday
+    if (weekdays.delete(7)) weekdays.add(0);
+    return {
+      minutes: parseField(minute, 0, 59),
+      hours: parseField(hour, 0, 23),
+      days: parseField(day, 1, 31),
+      months: parseField(month, 1, 12, MONTH_NAMES),
+      weekdays,
+      anyDay: day === '*',
+      anyWeekday: weekday === '*',
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression '${expression}': ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Whether a date's day matches. As in cron, when both day-of-month and
+ * day-of-week are restricted either one matching is enough.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * Find the first time after `after` that matches the schedule, to the minute
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getFullYear() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error('Cron expression never matches');
+}
+
+/**
+ * Load last runs from `statePath`, ignoring a missing or unreadable file
+ */
+function loadState(statePath: string): Record<string, JobRun> {
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Create the job scheduler. `jobs` returns the configured jobs; `sync` arms
+ * their timers, while `run` works without them. The last run of each job is
+ * stored in `statePath`, and a run missed while the server was down is
+ * started as soon as the job is synced. Timers don't keep the process alive
+ * unless `keepAlive` is set, as in headless mode.
+ */
+export function createScheduler({
+  statePath,
+  jobs,
+  runJob,
+  keepAlive = false,
+}: {
+  statePath: string;
+  jobs: () => Record<string, ScheduledJob>;
+  runJob: (name: string, job: ScheduledJob) => Promise<JobResult>;
+  keepAlive?: boolean;
+}): Scheduler {
+  const state = loadState(statePath);
+  const timers = new Map<
+    string,
+    {
+      job: ScheduledJob;
+      nextRun: number;
+      timer?: ReturnType<typeof setTimeout>;
+    }
+  >();
+  const running = new Map<string, Promise<JobRun>>();
+
+  const save = () => {
+    try {
+      const tempPath = `${statePath}.${process.pid}.tmp`;
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(state), 'utf8');
+      fs.renameSync(tempPath, statePath);
+    } catch (error) {
+      console.error('Error saving scheduler state:', error);
+    }
+  };
+
+  const run = (name: string): Promise<JobRun> => {
+    const job = jobs()[name];
+    if (!job) return Promise.reject(new Error(`Job '${name}' not found`));
+
+    const pending = running.get(name);
+    if (pending) return pending;
+
+    const started: JobRun = {
+      startedAt: Date.now(),
+      status: 'running',
+      outputs: [],
+    };
+    state[name] = started;
+    const promise = runJob(name, job)
+      .then(
+        (result): JobRun => ({
+          ...started,
+          finishedAt: Date.now(),
+          status: 'ok',
+          outputs: result.outputs,
+          summary: result.summary,
+        }),
+        (error): JobRun => ({
+          ...started,
+          finishedAt: Date.now(),
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        })
+      )
+      .then((result) => {
+        state[name] = result;
+        save();
+        running.delete(name);
+        if (result.status === 'error') {
+          console.error(`Scheduled job '${name}' failed: ${result.error}`);
+        }
+        return result;
+      });
+    running.set(name, promise);
+    return promise;
+  };
+
+  const arm = (name: string) => {
+    const entry = timers.get(name);
+    if (!entry) return;
+    const delay = Math.min(
+      Math.max(entry.nextRun - Date.now(), 0),
+      MAX_TIMEOUT
+    );
+    entry.timer = setTimeout(() => {
+      if (Date.now() >= entry.nextRun) {
+        run(name).catch(() => {});
+        entry.nextRun = nextCronTime(
+          parseCron(entry.job.schedule),
+          new Date()
+        ).getTime();
+      }
+      arm(name);
+    }, delay);
+    if (!keepAlive) entry.timer.unref();
+  };
+
+  const start = (name: string, job: ScheduledJob) => {
+    const schedule = parseCron(job.schedule);
+    timers.set(name, {
+      job,
+      nextRun: nextCronTime(schedule, new Date()).getTime(),
+    });
+    arm(name);
+
+    // Catch up on a run missed while the server wasn't running
+    const lastRun = state[name];
+    if (
+      lastRun &&
+      nextCronTime(schedule, new Date(lastRun.startedAt)).getTime() <=
+        Date.now()
+    ) {
+      run(name).catch(() => {});
+    }
+  };
+
+  return {
+    sync() {
+      const configured = jobs();
+      for (const [name, entry] of timers) {
+        const job = configured[name];
+        if (!job || JSON.stringify(job) !== JSON.stringify(entry.job)) {
+          clearTimeout(entry.timer);
+          timers.delete(name);
+        }
+      }
+      for (const [name, job] of Object.entries(configured)) {
+        if (job.enabled === false || timers.has(name)) continue;
+        try {
+          start(name, job);
+        } catch (error) {
+          console.error(`Error scheduling job '${name}':`, error);
+        }
+      }
+    },
+
+    run,
+
+    status() {
+      return Object.entries(jobs()).map(([name, job]) => ({
+        name,
+        job,
+        nextRun: timers.get(name)?.nextRun,
+        lastRun: state[name],
+      }));
+    },
+
+    stop() {
+      for (const entry of timers.values()) clearTimeout(entry.timer);
+      timers.clear();
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test';
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+import type { Fetcher } from './identifiers';
+import { getSupportedNips, matchesSearch, searchNotes } from './search';
+
+/**
+ * A kind 1 note; signatures aren't checked at this level
+ */
+function note(id: string, content: string, createdAt: number): NostrEvent {
+  return {
+    id,
+    pubkey: 'a'.repeat(64),
+    kind: 1,
+    created_at: createdAt,
+    tags: [],
+    content,
+    sig: '',
+  };
+}
+
+/**
+ * Serve NIP-11 documents by relay host
+ */
+function relayInfoStub(nips: Record<string, number[]>): Fetcher {
+  return async (url) =>
+    Response.json({ supported_nips: nips[new URL(url).host] ?? [] });
+}
+
+describe('getSupportedNips', () => {
+  test('reads supported NIPs over http(s)', async () => {
+    const urls: string[] = [];
+    const fetcher: Fetcher = async (url, init) => {
+      urls.push(url);
+      expect(init?.signal).toBeInstanceOf(AbortSignal);
+      return Response.json({ supported_nips: [1, 11, 50, 'x'] });
+    };
+
+    expect(await getSupportedNips('wss://nips.example', fetcher)).toEqual([
+      1, 11, 50,
+    ]);
+    expect(urls).toEqual(['https://nips.example']);
+  });
+
+  test('treats a timed out request as unsupported', async () => {
+    const fetcher: Fetcher = async () => {
+      throw new DOMException('The operation timed out.', 'TimeoutError');
+    };
+    expect(await getSupportedNips('wss://silent.example', fetcher)).toEqual([]);
+  });
+});
+
+describe('matchesSearch', () => {
+  test('requires every keyword, hashtag and the phrase', () => {
+    const text = 'Bitcoin fees are low today #nostr';
+    expect(matchesSearch(text, [], { keywords: 'fees bitcoin' })).toBe(true);
+    expect(matchesSearch(text, [], { hashtags: ['#Nostr'] })).toBe(true);
+    expect(matchesSearch(text, ['zaps'], { hashtags: ['zaps'] })).toBe(true);
+    expect(matchesSearch(text, [], { phrase: 'fees are low' })).toBe(true);
+    expect(matchesSearch(text, [], { phrase: 'fees low' })).toBe(false);
+    expect(matchesSearch(text, [], { keywords: 'fees lightning' })).toBe(false);
+  });
+});
+
+describe('searchNotes', () => {
+  test('sends NIP-50 searches and filters other relays locally', async () => {
+    const filters = new Map<string, Filter>();
+    const query = async (relays: string[], filter: Filter) => {
+      filters.set(relays[0]!, filter);
+      return [
+        note('1', 'relay fees are up', 300),
+        note('2', 'something else', 200),
+        note('3', 'Relay fees again', 100),
+      ];
+    };
+
+    const results = await searchNotes(
+      query,
+      ['wss://search.example', 'wss://plain.example'],
+      { keywords: 'relay fees' },
+      10,
+      relayInfoStub({ 'search.example': [50] })
+    );
+
+    expect(filters.get('wss://search.example')).toEqual({
+      kinds: [1],
+      search: 'relay fees',
+      limit: 10,
+    });
+    expect(filters.get('wss://plain.example')).toEqual({
+      kinds: [1],
+      limit: 100,
+    });
+    // The NIP-50 relay's loose match on note 2 is dropped too
+    expect(
+      results.map(({ event, relays }) => [event.id, relays.length])
+    ).toEqual([
+      ['1', 2],
+      ['3', 2],
+    ]);
+  });
+
+  test('requires every hashtag even though relays match any of them', async () => {
+    const filters: Filter[] = [];
+    const query = async (_relays: string[], filter: Filter) => {
+      filters.push(filter);
+      return [
+        {
+          ...note('1', 'both tags', 300),
+          tags: [
+            ['t', 'nostr'],
+            ['t', 'zaps'],
+          ],
+        },
+        { ...note('2', 'one tag', 200), tags: [['t', 'nostr']] },
+        note('3', 'tags inline #Nostr #zaps', 100),
+      ];
+    };
+
+    const results = await searchNotes(
+      query,
+      ['wss://search.example'],
+      { keywords: 'tag', hashtags: ['#Nostr', 'zaps'] },
+      10,
+      relayInfoStub({ 'search.example': [50] })
+    );
+
+    expect(filters[0]).toMatchObject({ '#t': ['nostr', 'zaps'] });
+    expect(results.map(({ event }) => event.id)).toEqual(['1', '3']);
+  });
+});
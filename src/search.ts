@@ -0,0 +1,184 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+import type { Fetcher } from './identifiers';
+
+export interface SearchQuery {
+  keywords?: string;
+  hashtags?: string[];
+  phrase?: string;
+}
+
+export interface SearchResult {
+  event: NostrEvent;
+  relays: string[];
+}
+
+type QueryFunction = (
+  relays: string[],
+  filter: Filter
+) => Promise<NostrEvent[]>;
+
+const FALLBACK_WINDOW_MULTIPLIER = 10;
+const RELAY_INFO_TTL = 60 * 60 * 1000;
+const RELAY_INFO_TIMEOUT = 5000;
+
+const relayInfoCache = new Map<
+  string,
+  { supportedNips: number[]; expiresAt: number }
+>();
+
+/**
+ * Fetch the NIP-11 relay information document and return its supported NIPs.
+ * Relays that don't serve one in time are treated as supporting nothing.
+ */
+export async function getSupportedNips(
+  relay: string,
+  fetcher: Fetcher = fetch
+): Promise<number[]> {
+  const cached = relayInfoCache.get(relay);
+  if (cached && cached.expiresAt > Date.now()) return cached.supportedNips;
+
+  let supportedNips: number[] = [];
+  try {
+    const response = await fetcher(relay.replace(/^ws(s?):\/\//, 'http$1://'), {
+      headers: { Accept: 'application/nostr+json' },
+      signal: AbortSignal.timeout(RELAY_INFO_TIMEOUT),
+    });
+    if (response.ok) {
+      const info = (await response.json()) as { supported_nips?: unknown };
+      if (Array.isArray(info.supported_nips)) {
+        supportedNips = info.supported_nips.filter(
+          (nip): nip is number => typeof nip === 'number'
+        );
+      }
+    }
+  } catch (error) {
+    console.error(
+      `Error fetching relay information for ${relay}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  relayInfoCache.set(relay, {
+    supportedNips,
+    expiresAt: Date.now() + RELAY_INFO_TTL,
+  });
+  return supportedNips;
+}
+
+/**
+ * Normalize a hashtag for comparison (lowercase, without the leading '#')
+ */
+function normalizeHashtag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Check text and tags against a search query. Every keyword, every hashtag
+ * and the phrase must be present.
+ */
+export function matchesSearch(
+  text: string,
+  tags: string[],
+  { keywords, hashtags, phrase }: SearchQuery
+): boolean {
+  const haystack = text.toLowerCase();
+
+  const words = (keywords ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.every((word) => haystack.includes(word))) return false;
+
+  if (phrase && !haystack.includes(phrase.toLowerCase())) return false;
+
+  if (hashtags && hashtags.length > 0) {
+    const present = new Set(tags.map(normalizeHashtag));
+    for (const match of haystack.matchAll(/#([\p{L}\p{N}_]+)/gu)) {
+      if (match[1]) present.add(match[1]);
+    }
+    if (!hashtags.every((tag) => present.has(normalizeHashtag(tag)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a query has any criteria at all
+ */
+export function isEmptySearch(query: SearchQuery): boolean {
+  return (
+    !query.keywords?.trim() &&
+    !query.phrase?.trim() &&
+    (query.hashtags ?? []).length === 0
+  );
+}
+
+/**
+ * Check a Nostr event against a search query, using its `t` tags as hashtags
+ */
+function eventMatchesSearch(event: NostrEvent, query: SearchQuery): boolean {
+  const tags = event.tags
+    .filter((tag) => tag[0] === 't' && tag[1])
+    .map((tag) => tag[1] as string);
+  return matchesSearch(event.content, tags, query);
+}
+
+/**
+ * Search notes across relays. Relays advertising NIP-50 receive a `search`
+ * filter; the rest are queried for a larger window. Results from both are
+ * filtered locally, deduplicated by id and list every relay that matched.
+ */
+export async function searchNotes(
+  query: QueryFunction,
+  relays: string[],
+  search: SearchQuery,
+  limit: number,
+  fetcher: Fetcher = fetch
+): Promise<SearchResult[]> {
+  const searchText = [search.keywords, search.phrase && `"${search.phrase}"`]
+    .filter(Boolean)
+    .join(' ')
+    .trim();
+  const hashtags = (search.hashtags ?? []).map(normalizeHashtag);
+
+  const perRelay = await Promise.all(
+    relays.map(async (relay) => {
+      try {
+        const nip50 =
+          searchText !== '' &&
+          (await getSupportedNips(relay, fetcher)).includes(50);
+
+        const filter: Filter = nip50
+          ? { kinds: [1], search: searchText, limit }
+          : { kinds: [1], limit: limit * FALLBACK_WINDOW_MULTIPLIER };
+        if (hashtags.length > 0) filter['#t'] = hashtags;
+
+        // Relays treat `#t` as any-of and may match NIP-50 searches loosely,
+        // so every result is checked against the whole query
+        const events = await query([relay], filter);
+        return {
+          relay,
+          events: events.filter((event) => eventMatchesSearch(event, search)),
+        };
+      } catch (error) {
+        console.error(`Error searching relay ${relay}:`, error);
+        return { relay, events: [] };
+      }
+    })
+  );
+
+  const results = new Map<string, SearchResult>();
+  for (const { relay, events } of perRelay) {
+    for (const event of events) {
+      const existing = results.get(event.id);
+      if (existing) {
+        existing.relays.push(relay);
+      } else {
+        results.set(event.id, { event, relays: [relay] });
+      }
+    }
+  }
+
+  return [...results.values()]
+    .sort((a, b) => b.event.created_at - a.event.created_at)
+    .slice(0, limit);
+}
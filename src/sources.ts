@@ -0,0 +1,115 @@
+import type { z, ZodRawShape } from 'zod';
+
+export interface FormattedItem {
+  date: string;
+  title?: string;
+  author: string;
+  content: string;
+  link?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface SourceEntry {
+  name: string;
+  urls: string[];
+}
+
+/**
+ * An MCP fetch tool generated from an adapter. `fetch` receives the parsed
+ * tool parameters, including `limit` and the `cursor` every fetch tool takes.
+ */
+export interface SourceTool<T, S extends ZodRawShape = ZodRawShape> {
+  name: string;
+  description: string;
+  schema: S;
+  fetch(params: z.infer<z.ZodObject<S>> & { cursor?: string }): Promise<T[]>;
+  notFoundMessage: string;
+  errorPrefix: string;
+}
+
+/**
+ * Config management for an adapter's entries. Adapters without `remove`
+ * are treated as built-in.
+ */
+export interface SourceEntryManagement {
+  addSchema?: ZodRawShape;
+  add?(params: Record<string, unknown>): Promise<string>;
+  remove?(name: string): string;
+}
+
+export interface SourceAdapter<T = unknown> {
+  /** Unique adapter id, e.g. 'nostr' or 'hackerNews' */
+  id: string;
+  /** Entry category shared by list/add/remove tools, e.g. 'relay group' */
+  category: string;
+  describe(): string;
+  list(): SourceEntry[];
+  fetch(entry: string, limit: number): Promise<T[]>;
+  normalize(item: T): FormattedItem;
+  /** Optional note appended to results, e.g. which relays failed */
+  describeResult?(items: T[]): string | undefined;
+  tools?: SourceTool<T>[];
+  entries?: SourceEntryManagement;
+}
+
+/**
+ * Declare an adapter fetch tool, typing `fetch` parameters from its schema
+ */
+export function defineSourceTool<T, S extends ZodRawShape>(
+  tool: SourceTool<T, S>
+): SourceTool<T> {
+  return tool;
+}
+
+export interface SourceRegistry {
+  register(adapter: SourceAdapter): void;
+  adapters(): SourceAdapter[];
+  categories(): string[];
+  resolve(
+    entry: string,
+    category?: string
+  ): { adapter: SourceAdapter; entry: SourceEntry } | undefined;
+}
+
+/**
+ * Create a registry of source adapters. Entries are resolved by name in
+ * registration order, optionally restricted to one category.
+ */
+export function createSourceRegistry(): SourceRegistry {
+  const adapters = new Map<string, SourceAdapter>();
+
+  return {
+    register(adapter) {
+      if (adapters.has(adapter.id)) {
+        throw new Error(`Source adapter '${adapter.id}' is already registered`);
+      }
+      adapters.set(adapter.id, adapter);
+    },
+
+    adapters() {
+      return [...adapters.values()];
+    },
+
+    categories() {
+      return [
+        ...new Set([...adapters.values()].map((adapter) => adapter.category)),
+      ];
+    },
+
+    resolve(name, category) {
+      for (const adapter of adapters.values()) {
+        if (category && adapter.category !== category) continue;
+        const entry = adapter.list().find((entry) => entry.name === name);
+        if (entry) return { adapter, entry };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Turn a category into a tool name fragment, e.g. 'RSS feed' -> 'rss-feed'
+ */
+export function categorySlug(category: string): string {
+  return category.toLowerCase().replace(/\s+/g, '-');
+}
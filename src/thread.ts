@@ -0,0 +1,166 @@
+import type { NostrEvent } from 'nostr-tools/pure';
+import type { Filter } from 'nostr-tools';
+import { parse } from 'nostr-tools/nip10';
+
+export interface ThreadNode {
+  event: NostrEvent;
+  children: ThreadNode[];
+}
+
+export interface Thread {
+  root: ThreadNode;
+  targetId: string;
+  events: NostrEvent[];
+  truncated: boolean;
+}
+
+export interface ThreadLimits {
+  maxDepth: number;
+  maxReplies: number;
+}
+
+type QueryFunction = (
+  relays: string[],
+  filter: Filter
+) => Promise<NostrEvent[]>;
+
+/**
+ * Get the id of the event a note replies to, following NIP-10 markers
+ */
+function getParentId(event: NostrEvent): string | undefined {
+  const { root, reply } = parse(event);
+  return reply?.id ?? root?.id;
+}
+
+/**
+ * Fetch a single event by id, using any relay hints alongside the relays
+ */
+async function fetchEventById(
+  query: QueryFunction,
+  relays: string[],
+  id: string,
+  hints: string[] = []
+): Promise<NostrEvent | undefined> {
+  const [event] = await query([...new Set([...relays, ...hints])], {
+    ids: [id],
+    limit: 1,
+  });
+  return event;
+}
+
+/**
+ * Walk up from a note to the root of its thread, then down through replies
+ * breadth-first, stopping at the depth and reply limits
+ */
+export async function fetchThread(
+  query: QueryFunction,
+  relays: string[],
+  id: string,
+  { maxDepth, maxReplies }: ThreadLimits
+): Promise<Thread> {
+  const target = await fetchEventById(query, relays, id);
+  if (!target) throw new Error(`Event '${id}' not found on the given relays`);
+
+  const events = new Map<string, NostrEvent>([[target.id, target]]);
+
+  // Walk up through parents until the root (or a missing parent) is reached
+  let root = target;
+  for (let steps = 0; steps < maxDepth; steps++) {
+    const { root: rootPointer, reply } = parse(root);
+    const parentPointer = reply ?? rootPointer;
+    if (!parentPointer) break;
+
+    const parent =
+      events.get(parentPointer.id) ??
+      (await fetchEventById(
+        query,
+        relays,
+        parentPointer.id,
+        parentPointer.relays
+      ));
+    if (!parent) break;
+
+    events.set(parent.id, parent);
+    root = parent;
+  }
+
+  // Walk down from the root one level at a time
+  let replies = 0;
+  let truncated = false;
+  let level = [root.id];
+  for (let depth = 0; depth < maxDepth && level.length > 0; depth++) {
+    const remaining = maxReplies - replies;
+    if (remaining <= 0) {
+      truncated = true;
+      break;
+    }
+
+    const found = await query(relays, {
+      kinds: [1],
+      '#e': level,
+      limit: remaining,
+    });
+
+    const next: string[] = [];
+    for (const event of found) {
+      if (events.has(event.id)) continue;
+      if (replies >= maxReplies) {
+        truncated = true;
+        break;
+      }
+      events.set(event.id, event);
+      next.push(event.id);
+      replies++;
+    }
+    level = next;
+  }
+
+  return {
+    root: buildTree(root, [...events.values()]),
+    targetId: target.id,
+    events: [...events.values()],
+    truncated,
+  };
+}
+
+/**
+ * Drop events from a thread, moving the replies of dropped events up to the
+ * nearest kept ancestor. The root always stays.
+ */
+export function filterThread(
+  node: ThreadNode,
+  keep: (event: NostrEvent) => boolean
+): ThreadNode {
+  return {
+    event: node.event,
+    children: node.children.flatMap((child) => {
+      const filtered = filterThread(child, keep);
+      return keep(child.event) ? [filtered] : filtered.children;
+    }),
+  };
+}
+
+/**
+ * Arrange events into a tree under the root, attaching orphans to the root
+ */
+function buildTree(root: NostrEvent, events: NostrEvent[]): ThreadNode {
+  const nodes = new Map<string, ThreadNode>(
+    events.map((event) => [event.id, { event, children: [] }])
+  );
+  const rootNode = nodes.get(root.id) ?? { event: root, children: [] };
+
+  for (const node of nodes.values()) {
+    if (node === rootNode) continue;
+    const parentId = getParentId(node.event);
+    const parent =
+      (parentId !== node.event.id && parentId && nodes.get(parentId)) ||
+      rootNode;
+    parent.children.push(node);
+  }
+
+  for (const node of nodes.values()) {
+    node.children.sort((a, b) => a.event.created_at - b.event.created_at);
+  }
+
+  return rootNode;
+}
@@ -0,0 +1,255 @@
+import type { FormattedItem } from './sources';
+
+export interface TrendItem {
+  /** Name of the configured source the item came from */
+  source: string;
+  item: FormattedItem;
+}
+
+export interface Topic {
+  /** Short label built from the topic's most common hashtags and words */
+  label: string;
+  score: number;
+  mentions: number;
+  sources: string[];
+  hashtags: string[];
+  /** Newest member date, ISO formatted */
+  latest: string;
+  /** Members, newest first */
+  items: TrendItem[];
+}
+
+export interface TrendOptions {
+  /** Reference time for recency, in milliseconds */
+  now: number;
+  /** Recency half-life in milliseconds */
+  halfLife: number;
+  minMentions: number;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
+const HASHTAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}_]{2,})/gu;
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|source)$/i;
+
+// Token similarity needed to merge two items, lower when they share a hashtag
+const TOPIC_SIMILARITY_THRESHOLD = 0.35;
+const SHARED_TAG_SIMILARITY_THRESHOLD = 0.15;
+
+// Each extra source counts as this many extra mentions when ranking
+const SOURCE_WEIGHT = 2;
+
+const STOPWORDS = new Set(
+  (
+    'the and for are but not you all any can had her was one our out day get ' +
+    'has him his how man new now old see two way who boy did its let put say ' +
+    'she too use that with have this will your from they know want been good ' +
+    'much some time very when come here just like long make many over such ' +
+    'take than them well were what into more about after also could their ' +
+    'there these thing think those which while would other should being ' +
+    'where https http www com ' +
+    // Boilerplate in Hacker News feed items
+    'article url comments points'
+  ).split(' ')
+);
+
+/**
+ * Normalize a URL so the same story links compare equal across sources:
+ * lowercase host without `www.`, no fragment, trailing slash or tracking
+ * parameters, and sorted query parameters
+ */
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    const params = [...parsed.searchParams]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const search = params.length
+      ? `?${new URLSearchParams(params).toString()}`
+      : '';
+    return `${host}${pathname}${search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Collect the canonical links an item points to, including URLs in its content
+ */
+export function getItemLinks(item: FormattedItem): Set<string> {
+  const links = new Set<string>();
+  if (item.link) links.add(canonicalizeUrl(item.link));
+  for (const url of item.content.match(URL_PATTERN) ?? []) {
+    links.add(canonicalizeUrl(url));
+  }
+  return links;
+}
+
+/**
+ * Split an item's title and content into a set of lowercase word tokens
+ */
+export function getItemTokens(item: FormattedItem): Set<string> {
+  const text = `${item.title ?? ''} ${item.content}`
+    .replace(URL_PATTERN, ' ')
+    .toLowerCase();
+  return new Set(text.match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/**
+ * Jaccard similarity between two token sets
+ */
+export function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Collect lowercase hashtags from `#tags` in the text, Nostr `t` tags
+ * (metadata.hashtags) and RSS categories
+ */
+export function getItemHashtags(item: FormattedItem): Set<string> {
+  const tags = new Set<string>();
+  const text = `${item.title ?? ''} ${item.content}`.replace(URL_PATTERN, ' ');
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (match[1]) tags.add(match[1].toLowerCase());
+  }
+  for (const field of [item.metadata?.hashtags, item.metadata?.categories]) {
+    for (const tag of field?.split(',') ?? []) {
+      const value = tag.trim().replace(/^#/, '').toLowerCase();
+      if (value) tags.add(value);
+    }
+  }
+  return tags;
+}
+
+/**
+ * Tokens that say something about the topic: no stopwords, short words or
+ * plain numbers
+ */
+function getKeywords(item: FormattedItem): Set<string> {
+  return new Set(
+    [...getItemTokens(item)].filter(
+      (token) =>
+        token.length >= 3 && !STOPWORDS.has(token) && !/^\d+$/.test(token)
+    )
+  );
+}
+
+/**
+ * Most frequent values across sets that appear in at least `minCount` of
+ * them, most common first
+ */
+function mostCommon(
+  sets: Set<string>[],
+  count: number,
+  minCount: number
+): string[] {
+  const counts = new Map<string, number>();
+  for (const set of sets) {
+    for (const value of set) counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts]
+    .filter(([, n]) => n >= minCount)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([value]) => value);
+}
+
+/**
+ * Group items into topics and rank them. Items join a topic when they share a
+ * canonical link, or when their keywords overlap enough (less is needed if
+ * they also share a hashtag). Topics are ranked by mentions plus a bonus per
+ * extra source, decayed by the age of their newest item.
+ */
+export function detectTopics(
+  entries: TrendItem[],
+  { now, halfLife, minMentions }: TrendOptions
+): Topic[] {
+  const features = entries.map((entry) => ({
+    entry,
+    time: Date.parse(entry.item.date),
+    links: getItemLinks(entry.item),
+    tags: getItemHashtags(entry.item),
+    keywords: getKeywords(entry.item),
+  }));
+
+  // Union-find over item indexes
+  const parent = features.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]!]!;
+      index = parent[index]!;
+    }
+    return index;
+  };
+
+  for (let i = 0; i < features.length; i++) {
+    for (let j = i + 1; j < features.length; j++) {
+      const a = features[i]!;
+      const b = features[j]!;
+      const sharesLink = [...a.links].some((link) => b.links.has(link));
+      const sharesTag = [...a.tags].some((tag) => b.tags.has(tag));
+      const threshold = sharesTag
+        ? SHARED_TAG_SIMILARITY_THRESHOLD
+        : TOPIC_SIMILARITY_THRESHOLD;
+      if (sharesLink || tokenSimilarity(a.keywords, b.keywords) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, typeof features>();
+  features.forEach((feature, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), feature]);
+  });
+
+  const topics: Topic[] = [];
+  for (const members of groups.values()) {
+    if (members.length < minMentions) continue;
+
+    members.sort((a, b) => b.time - a.time);
+    const latest = members[0]!.time;
+    const sources = [...new Set(members.map((m) => m.entry.source))];
+    // Label with what members have in common, unless the topic is one item
+    const shared = Math.min(2, members.length);
+    const hashtags = mostCommon(
+      members.map((m) => m.tags),
+      3,
+      shared
+    );
+    const words = mostCommon(
+      members.map((m) => m.keywords),
+      3,
+      shared
+    ).filter((word) => !hashtags.includes(word));
+    const recency = Math.pow(0.5, Math.max(0, now - latest) / halfLife);
+
+    topics.push({
+      label: [...hashtags.map((tag) => `#${tag}`), ...words].join(' '),
+      score:
+        Math.round(
+          (members.length + SOURCE_WEIGHT * (sources.length - 1)) *
+            recency *
+            100
+        ) / 100,
+      mentions: members.length,
+      sources,
+      hashtags,
+      latest: new Date(latest).toISOString(),
+      items: members.map((m) => m.entry),
+    });
+  }
+
+  return topics.sort(
+    (a, b) => b.score - a.score || Date.parse(b.latest) - Date.parse(a.latest)
+  );
+}
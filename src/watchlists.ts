@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Watchlist } from './config';
+import type { OutputEntry } from './output';
+import type { FormattedItem } from './sources';
+
+/**
+ * An item matching a watchlist, identified by event id or feed item guid
+ */
+export interface WatchMatch {
+  id: string;
+  /** Publication time in milliseconds, used for ordering */
+  time: number;
+  entry: OutputEntry;
+}
+
+/**
+ * How a watchlist finds matches. `poll` fetches the current matches; sources
+ * with `subscribe` also receive matches live, otherwise `poll` is repeated
+ * every `pollInterval` milliseconds.
+ */
+export interface WatchSource {
+  poll(since?: number): Promise<WatchMatch[]>;
+  /**
+   * Start a live subscription. `live` is false for stored matches sent before
+   * the subscription caught up. Returns a function that stops it.
+   */
+  subscribe?(onMatch: (match: WatchMatch, live: boolean) => void): () => void;
+  pollInterval: number;
+}
+
+export interface WatchlistStatus {
+  name: string;
+  watchlist: Watchlist;
+  pending: number;
+  lastCheck?: number;
+}
+
+export interface WatchlistManager {
+  /** Start, restart or stop watchers so they match the configured watchlists */
+  sync(watchlists: Record<string, Watchlist>): void;
+  /**
+   * Return matches not seen by an earlier check, newest first, and mark them
+   * as seen
+   */
+  check(name: string): Promise<WatchMatch[]>;
+  /** Matches received since the last check, without marking them as seen */
+  pending(name: string): WatchMatch[];
+  status(): WatchlistStatus[];
+  /** Forget seen ids for a watchlist that was removed */
+  forget(name: string): void;
+  stop(): void;
+}
+
+interface WatchlistState {
+  seen: string[];
+  lastCheck?: number;
+}
+
+const MAX_SEEN_IDS = 1000;
+const MAX_PENDING = 200;
+
+/**
+ * Describe a watchlist in one line
+ */
+export function describeWatchlist(watchlist: Watchlist): string {
+  switch (watchlist.type) {
+    case 'nostr': {
+      const parts = [`Nostr notes on relay group '${watchlist.relayGroup}'`];
+      if (watchlist.kinds?.length) {
+        parts.push(`kinds ${watchlist.kinds.join(', ')}`);
+      }
+      if (watchlist.authors?.length) {
+        parts.push(`by ${watchlist.authors.join(', ')}`);
+      }
+      if (watchlist.hashtags?.length) {
+        parts.push(
+          `tagged ${watchlist.hashtags.map((t) => `#${t}`).join(' ')}`
+        );
+      }
+      if (watchlist.keywords?.length) {
+        parts.push(`mentioning ${watchlist.keywords.join(', ')}`);
+      }
+      return parts.join(', ');
+    }
+    case 'rss':
+      return watchlist.keywords?.length
+        ? `RSS feed '${watchlist.feed}' items mentioning ${watchlist.keywords.join(', ')}`
+        : `New items in RSS feed '${watchlist.feed}'`;
+    case 'author':
+      return `Notes by ${watchlist.author} on relay group '${watchlist.relayGroup}'`;
+  }
+}
+
+/**
+ * Whether an item mentions any of the keywords, ignoring case. An empty
+ * keyword list matches everything.
+ */
+export function matchesKeywords(
+  item: FormattedItem,
+  keywords: string[] = []
+): boolean {
+  if (keywords.length === 0) return true;
+  const text = `${item.title ?? ''}\n${item.content}`.toLowerCase();
+  return keywords.some((keyword) => text.includes(keyword.toLowerCase()));
+}
+
+/**
+ * Load seen ids from `statePath`, ignoring a missing or unreadable file
+ */
+function loadState(statePath: string): Record<string, WatchlistState> {
+  try {
+    return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Create the watchlist manager. Seen ids are stored in `statePath` so checks
+ * only return new items across restarts; matches that arrive between checks
+ * are kept in memory and reported through `onMatch`.
+ */
+export function createWatchlistManager({
+  statePath,
+  createSource,
+  onMatch,
+}: {
+  statePath: string;
+  createSource: (name: string, watchlist: Watchlist) => WatchSource;
+  onMatch: (name: string, match: WatchMatch) => void;
+}): WatchlistManager {
+  const state = loadState(statePath);
+  const watchers = new Map<
+    string,
+    {
+      watchlist: Watchlist;
+      source: WatchSource;
+      pending: Map<string, WatchMatch>;
+      stop: () => void;
+    }
+  >();
+
+  const save = () => {
+    try {
+      const tempPath = `${statePath}.${process.pid}.tmp`;
+      fs.mkdirSync(path.dirname(statePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(state), 'utf8');
+      fs.renameSync(tempPath, statePath);
+    } catch (error) {
+      console.error('Error saving watchlist state:', error);
+    }
+  };
+
+  const isSeen = (name: string, id: string) =>
+    state[name]?.seen.includes(id) ?? false;
+
+  const start = (name: string, watchlist: Watchlist) => {
+    const source = createSource(name, watchlist);
+    const pending = new Map<string, WatchMatch>();
+
+    const receive = (match: WatchMatch, live: boolean) => {
+      if (isSeen(name, match.id) || pending.has(match.id)) return;
+      pending.set(match.id, match);
+      // Drop the oldest pending match once the buffer is full
+      if (pending.size > MAX_PENDING) {
+        pending.delete(pending.keys().next().value!);
+      }
+      if (live) onMatch(name, match);
+    };
+
+    let stop: () => void;
+    if (source.subscribe) {
+      stop = source.subscribe(receive);
+    } else {
+      // The first poll only fills the pending list, so restarting the server
+      // doesn't announce every item already in the feed
+      let polled = false;
+      const poll = () =>
+        source
+          .poll(state[name]?.lastCheck)
+          .then((matches) => {
+            matches.forEach((match) => receive(match, polled));
+            polled = true;
+          })
+          .catch((error) =>
+            console.error(`Error polling watchlist '${name}':`, error)
+          );
+      poll();
+      const timer = setInterval(poll, source.pollInterval);
+      timer.unref();
+      stop = () => clearInterval(timer);
+    }
+
+    watchers.set(name, { watchlist, source, pending, stop });
+  };
+
+  return {
+    sync(watchlists) {
+      for (const [name, watcher] of watchers) {
+        const watchlist = watchlists[name];
+        if (
+          !watchlist ||
+          JSON.stringify(watchlist) !== JSON.stringify(watcher.watchlist)
+        ) {
+          watcher.stop();
+          watchers.delete(name);
+        }
+      }
+      for (const [name, watchlist] of Object.entries(watchlists)) {
+        if (!watchers.has(name)) start(name, watchlist);
+      }
+    },
+
+    async check(name) {
+      const watcher = watchers.get(name);
+      if (!watcher) throw new Error(`Watchlist '${name}' not found`);
+
+      const now = Date.now();
+      const polled = await watcher.source.poll(state[name]?.lastCheck);
+      const matches = new Map(watcher.pending);
+      for (const match of polled) {
+        if (!isSeen(name, match.id)) matches.set(match.id, match);
+      }
+      watcher.pending.clear();
+
+      const results = [...matches.values()].sort((a, b) => b.time - a.time);
+      const seen = [...(state[name]?.seen ?? []), ...matches.keys()];
+      state[name] = { seen: seen.slice(-MAX_SEEN_IDS), lastCheck: now };
+      save();
+      return results;
+    },
+
+    pending(name) {
+      const watcher = watchers.get(name);
+      if (!watcher) throw new Error(`Watchlist '${name}' not found`);
+      return [...watcher.pending.values()].sort((a, b) => b.time - a.time);
+    },
+
+    status() {
+      return [...watchers].map(([name, watcher]) => ({
+        name,
+        watchlist: watcher.watchlist,
+        pending: watcher.pending.size,
+        lastCheck: state[name]?.lastCheck,
+      }));
+    },
+
+    forget(name) {
+      if (!(name in state)) return;
+      delete state[name];
+      save();
+    },
+
+    stop() {
+      for (const watcher of watchers.values()) watcher.stop();
+      watchers.clear();
+    },
+  };
+}